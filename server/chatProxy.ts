@@ -0,0 +1,174 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ChatAttachment, ChatErrorKind, ChatMessage } from '../src/types';
+import { ChatError, answeredTurns } from '../src/services/providers';
+import type { ChatProvider, ChatRequest } from '../src/services/providers';
+import { SIMULATOR_TOOLS } from '../src/services/simulatorTools';
+import { buildSystemInstruction } from '../src/services/tutorPrompt';
+import { isLanguage } from '../src/i18n';
+import { createRateLimiter } from './rateLimit';
+import { isSceneSnapshot, shortenPartName } from './scene';
+
+export interface ChatProxyOptions {
+  provider: ChatProvider;
+  requestsPerMinute: number;
+  maxBodyBytes: number;
+  maxQueryChars: number;
+  maxHistory: number; // Earlier turns kept; older ones are dropped
+  maxAttachments: number; // Photos per question
+  trustProxy: boolean; // Take the client address from X-Forwarded-For
+}
+
+// A request we refuse, with the HTTP status to answer it with
+class RequestError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// kind tells the browser how to explain the failure when the status alone
+// would mislead, e.g. a bad upstream key is not the student's fault
+const sendError = (res: ServerResponse, status: number, message: string, kind?: ChatErrorKind, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ error: message, ...(kind && { kind }) }));
+};
+
+// Upstream failures without a known cause are most likely the network
+const upstreamKind = (error: unknown): ChatErrorKind =>
+  error instanceof ChatError ? error.kind : error instanceof TypeError ? 'network' : 'unknown';
+
+const clientAddress = (req: IncomingMessage, trustProxy: boolean) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return (trustProxy && first) || req.socket.remoteAddress || 'unknown';
+};
+
+// Stops reading as soon as the body passes the cap instead of buffering it.
+// The connection stays open so the 413 can still be sent.
+const readBody = (req: IncomingMessage, maxBytes: number) =>
+  new Promise<string>((resolve, reject) => {
+    if (Number(req.headers['content-length'] ?? 0) > maxBytes) {
+      reject(new RequestError(413, `Request larger than ${maxBytes} bytes`));
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.off('data', onData);
+        req.pause();
+        reject(new RequestError(413, `Request larger than ${maxBytes} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const isAttachment = (value: unknown): value is ChatAttachment => {
+  const photo = value as ChatAttachment;
+  return !!photo && PHOTO_TYPES.includes(photo.mimeType) && typeof photo.data === 'string' &&
+    /^[A-Za-z0-9+/]+=*$/.test(photo.data) && typeof photo.name === 'string';
+};
+
+const isChatMessage = (value: unknown): value is ChatMessage => {
+  const msg = value as ChatMessage;
+  return !!msg && (msg.role === 'user' || msg.role === 'model') && typeof msg.text === 'string';
+};
+
+// Checks the shape and size of what the browser sent; the text limits keep
+// one request from costing more than a normal question would. The browser
+// only describes its scene: the instructions and tools are always our own,
+// so the key cannot be used for anything but the tutor.
+const parseRequest = (raw: string, options: ChatProxyOptions): Omit<ChatRequest, 'signal'> => {
+  let body: Record<string, unknown>;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new RequestError(400, 'Body is not valid JSON');
+  }
+  const { scene, language, history, query, attachments = [], temperature } = body ?? {};
+  if (typeof query !== 'string' || !query.trim()) throw new RequestError(400, 'query must be a non-empty string');
+  if (query.length > options.maxQueryChars) throw new RequestError(413, `query is longer than ${options.maxQueryChars} characters`);
+  if (!isSceneSnapshot(scene)) throw new RequestError(400, 'scene must be a simulator scene');
+  if (!isLanguage(language)) throw new RequestError(400, 'language must be a supported language code');
+  if (!Array.isArray(history) || !history.every(isChatMessage)) throw new RequestError(400, 'history must be a list of chat messages');
+  if (!Array.isArray(attachments) || !attachments.every(isAttachment)) throw new RequestError(400, 'attachments must be JPEG, PNG or WebP images in base64');
+  if (attachments.length > options.maxAttachments) throw new RequestError(413, `At most ${options.maxAttachments} photos per question`);
+  const described = shortenPartName(scene);
+  return {
+    system: buildSystemInstruction(described, language),
+    scene: described,
+    language,
+    // Only the text of earlier turns is forwarded, and only turns that
+    // alternate, which not every browser build guarantees
+    history: answeredTurns(history.slice(-options.maxHistory).map(({ role, text }) => ({ role, text }))),
+    query,
+    attachments,
+    tools: SIMULATOR_TOOLS,
+    temperature: typeof temperature === 'number' ? Math.min(2, Math.max(0, temperature)) : 0.7,
+  };
+};
+
+export const createChatHandler = (options: ChatProxyOptions) => {
+  const limiter = createRateLimiter(options.requestsPerMinute, 60_000);
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const wait = limiter.allow(clientAddress(req, options.trustProxy));
+    if (wait > 0) {
+      sendError(res, 429, 'Too many questions, please wait a moment', 'throttled', { 'Retry-After': String(Math.ceil(wait / 1000)) });
+      return;
+    }
+
+    let request: Omit<ChatRequest, 'signal'>;
+    try {
+      request = parseRequest(await readBody(req, options.maxBodyBytes), options);
+    } catch (error) {
+      // The rest of an unread body is not worth waiting for: close the
+      // connection once the answer has gone out
+      const close: Record<string, string> = req.complete ? {} : { Connection: 'close' };
+      if (!req.complete) res.on('finish', () => req.destroy());
+      if (error instanceof RequestError) sendError(res, error.status, error.message, undefined, close);
+      else sendError(res, 400, 'Could not read the request', undefined, close);
+      return;
+    }
+
+    // Stop paying for an answer nobody is waiting for
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    // One JSON event per line, as the browser's proxy provider reads them
+    const startStream = () => {
+      if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' });
+    };
+    try {
+      for await (const event of options.provider.stream({ ...request, signal: controller.signal })) {
+        startStream();
+        res.write(`${JSON.stringify(event)}\n`);
+      }
+      startStream();
+      res.end();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Upstream model error:', error);
+      const kind = upstreamKind(error);
+      const retryAfterMs = error instanceof ChatError ? error.retryAfterMs : undefined;
+      // Once the answer has started the status cannot change, so the
+      // failure goes out as a last line instead
+      if (res.headersSent) {
+        res.end(`${JSON.stringify({ type: 'error', kind, error: 'The answer was cut off' })}\n`);
+      } else {
+        sendError(res, 502, 'The model could not be reached', kind, retryAfterMs ? { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } : {});
+      }
+    }
+  };
+};
@@ -0,0 +1,51 @@
+import { createServer } from 'node:http';
+import { createProvider, providerConfig } from '../src/services/providers';
+import { createChatHandler } from './chatProxy';
+
+// Everything comes from the environment of the server process, never from
+// the browser bundle
+const env = process.env;
+const config = providerConfig({
+  provider: env.AI_PROVIDER,
+  model: env.AI_MODEL,
+  baseUrl: env.AI_BASE_URL,
+  apiKey: env.AI_API_KEY || env.GEMINI_API_KEY,
+}, 'gemini');
+if (config.kind === 'proxy') throw new Error('AI_PROVIDER=proxy would forward the server to itself');
+
+const PORT = Number(env.PORT) || 8787;
+// Set when the app is served from another origin, e.g. GitHub Pages
+const ALLOWED_ORIGIN = env.ALLOWED_ORIGIN ?? '';
+
+const handleChat = createChatHandler({
+  provider: createProvider(config),
+  requestsPerMinute: Number(env.RATE_LIMIT_PER_MINUTE) || 10,
+  maxBodyBytes: 4 * 1024 * 1024, // Room for a few scaled-down photos
+  maxQueryChars: 2000,
+  maxHistory: 20,
+  maxAttachments: 3,
+  trustProxy: env.TRUST_PROXY === 'true',
+});
+
+const server = createServer((req, res) => {
+  if (ALLOWED_ORIGIN) {
+    res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+  }
+  const path = req.url?.split('?')[0];
+  if (path !== '/api/chat') {
+    res.writeHead(404).end();
+  } else if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+  } else if (req.method !== 'POST') {
+    res.writeHead(405, { Allow: 'POST, OPTIONS' }).end();
+  } else {
+    void handleChat(req, res);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Chat proxy for ${config.kind} (${config.model}) listening on http://localhost:${PORT}/api/chat`);
+});
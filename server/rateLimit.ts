@@ -0,0 +1,27 @@
+// Sliding-window limit of requests per client. allow returns 0 when the
+// request may go ahead, otherwise the milliseconds until it would.
+export const createRateLimiter = (limit: number, windowMs: number) => {
+  const recent = new Map<string, number[]>();
+
+  // Forget clients that have gone quiet so the map does not grow forever
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - windowMs;
+    recent.forEach((times, client) => {
+      if (times[times.length - 1] <= cutoff) recent.delete(client);
+    });
+  }, windowMs);
+  sweep.unref();
+
+  const allow = (client: string, now = Date.now()) => {
+    const times = (recent.get(client) ?? []).filter(time => time > now - windowMs);
+    if (times.length >= limit) {
+      recent.set(client, times);
+      return times[0] + windowMs - now;
+    }
+    times.push(now);
+    recent.set(client, times);
+    return 0;
+  };
+
+  return { allow };
+};
@@ -0,0 +1,55 @@
+import { LightingMode } from '../src/types';
+import type { CameraLevels, LightFixture, PolarizationSettings, SceneLight, SceneSnapshot } from '../src/types';
+import { MATERIALS } from '../src/optics/materials';
+import { SPECTRAL_BANDS } from '../src/optics/spectrum';
+import { MAX_PART_NAME } from '../src/services/sceneContext';
+
+// Generous bounds on what the simulator can produce; anything larger is not
+// a scene from our app
+const MAX_LIGHTS = 12;
+const MAX_PROFILE_POINTS = 2048;
+
+const MODES: string[] = Object.values(LightingMode);
+const FIXTURES: LightFixture[] = ['spot', 'coaxial', 'ring', 'dome', 'backlight'];
+const LENS_KINDS = ['entocentric', 'telecentric'];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isLevel = (value: unknown) => isNumber(value) && value >= 0 && value <= 1;
+
+const isLight = (value: unknown): value is SceneLight => {
+  const light = value as SceneLight;
+  return !!light && FIXTURES.includes(light.fixture) && isNumber(light.id) && isNumber(light.angle) &&
+    isNumber(light.azimuth) && isNumber(light.intensity) && typeof light.enabled === 'boolean';
+};
+
+const isPolarization = (value: unknown): value is PolarizationSettings => {
+  const settings = value as PolarizationSettings;
+  return !!settings && typeof settings.polarizer === 'boolean' && isNumber(settings.polarizerAngle) &&
+    typeof settings.analyzer === 'boolean' && isNumber(settings.analyzerAngle);
+};
+
+const isLevels = (value: unknown): value is CameraLevels => {
+  const levels = value as CameraLevels;
+  return !!levels && isLevel(levels.flat) && isLevel(levels.defect) && (levels.backdrop === null || isLevel(levels.backdrop));
+};
+
+// Any length is accepted; shortenPartName trims it before it is used
+const isPartName = (value: unknown) => value === null || typeof value === 'string';
+
+// Checks every field the tutor's instructions are written from
+export const isSceneSnapshot = (value: unknown): value is SceneSnapshot => {
+  const scene = value as SceneSnapshot;
+  return !!scene && MODES.includes(scene.mode) && (scene.lightAngle === null || isNumber(scene.lightAngle)) &&
+    Object.hasOwn(MATERIALS, scene.materialId) && isLevels(scene.levels) &&
+    Array.isArray(scene.lights) && scene.lights.length <= MAX_LIGHTS && scene.lights.every(isLight) &&
+    Array.isArray(scene.profile) && scene.profile.length <= MAX_PROFILE_POINTS &&
+    scene.profile.every(p => !!p && isNumber(p.x) && isNumber(p.y)) &&
+    isPartName(scene.partName) &&
+    (scene.lightColor === 'white' || SPECTRAL_BANDS.includes(scene.lightColor)) &&
+    (scene.filter === 'none' || SPECTRAL_BANDS.includes(scene.filter)) &&
+    isPolarization(scene.polarization) && LENS_KINDS.includes(scene.lensKind);
+};
+
+// An older or modified browser may send the full file name
+export const shortenPartName = (scene: SceneSnapshot): SceneSnapshot =>
+  scene.partName === null ? scene : { ...scene, partName: scene.partName.slice(0, MAX_PART_NAME) };
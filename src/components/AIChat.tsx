@@ -1,34 +1,70 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, Loader2 } from 'lucide-react';
-import { ChatMessage, Language } from '../types';
-import { askOpticsExpert } from '../services/geminiService';
+import { Send, Bot, Loader2, Square, History, FileText, FileBraces, MessageSquarePlus, ImagePlus, X, WandSparkles, Undo2, AlertTriangle, RotateCcw } from 'lucide-react';
+import { ChatAttachment, ChatMessage, Conversation, LocalizedText, SceneSnapshot, SimulatorAction } from '../types';
+import { askOpticsExpert } from '../services/chatService';
+import {
+  createConversation,
+  downloadText,
+  fileNameFor,
+  loadConversations,
+  saveConversations,
+  titleFrom,
+  toJson,
+  toMarkdown,
+} from '../services/conversations';
+import { MAX_ATTACHMENTS, attachmentUrl, readPhoto } from '../services/attachments';
+import { EXAMPLE_CASES } from '../data/exampleCases';
+import { Translate } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+import ConversationList from './ConversationList';
+import ChatMarkdown from './ChatMarkdown';
 
 interface AIChatProps {
-  language: Language;
+  scene: SceneSnapshot; // Sent along with each question
+  onAction: (action: SimulatorAction) => void; // Carries out a change the tutor asked for
+  onSnapshot: () => () => void; // Saves the simulator; the returned function restores it
 }
 
-const AIChat: React.FC<AIChatProps> = ({ language }) => {
-  const isZh = language === 'zh';
-  
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+const describeAction = (action: SimulatorAction, t: Translate, localize: (text: LocalizedText) => string) => {
+  switch (action.kind) {
+    case 'setMode':
+      return t('chat.action.setMode', { mode: t(`mode.${action.mode}`) });
+    case 'setAngle':
+      return t('chat.action.setAngle', { angle: action.angle });
+    case 'loadCase': {
+      const example = EXAMPLE_CASES.find(item => item.id === action.caseId);
+      return t('chat.action.loadCase', { name: example ? localize(example.name) : action.caseId });
+    }
+    case 'highlight':
+      return t('chat.action.highlight', { target: t(`chat.highlight.${action.target}`) });
+  }
+};
+
+const AIChat: React.FC<AIChatProps> = ({ scene, onAction, onSnapshot }) => {
+  const { language, t, localize } = useTranslation();
+  const [conversations, setConversations] = useState<Conversation[]>(loadConversations);
+  // The most recent conversation is reopened after a reload
+  const [activeId, setActiveId] = useState<string | null>(() => conversations[0]?.id ?? null);
+  const [showList, setShowList] = useState(false);
   const [input, setInput] = useState('');
+  const [photos, setPhotos] = useState<ChatAttachment[]>([]); // Attached to the next question
+  const [photoError, setPhotoError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [streamed, setStreamed] = useState(''); // The answer arriving so far
+  // Only the latest answer that changed the simulator can be undone, and only
+  // in this session: later changes build on it
+  const [lastUndo, setLastUndo] = useState<{ conversationId: string; message: ChatMessage; restore: () => void } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const initialized = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
 
-  // Initialize welcome message when language changes or on mount
-  useEffect(() => {
-    const welcomeText = isZh 
-      ? "你好！我是你的光学助教。关于打光角度、明暗视野或检测难题，尽管问我。"
-      : "Hi! I'm your Optics Tutor. Ask me anything about lighting angles, reflection, or detection techniques.";
-    
-    // Reset or append welcome message when language changes significantly, 
-    // but for simplicity, we just ensure there's at least one message or update the first if it's the only one.
-    if (!initialized.current) {
-        setMessages([{ role: 'model', text: welcomeText }]);
-        initialized.current = true;
-    }
-  }, [isZh]);
+  const active = conversations.find(conversation => conversation.id === activeId) ?? null;
+  const messages = active?.messages ?? [];
+
+  // The greeting is not part of the history sent to the model, so it can
+  // follow the language until the first question is asked
+  const history: ChatMessage[] = messages.length > 0 ? messages : [{ role: 'model', text: t('chat.welcome') }];
+  const shown: ChatMessage[] = streamed ? [...history, { role: 'model', text: streamed }] : history;
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -36,72 +72,366 @@ const AIChat: React.FC<AIChatProps> = ({ language }) => {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [active, streamed]);
+
+  // Don't keep a request running for a chat that is gone
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    saveConversations(conversations);
+  }, [conversations]);
+
+  // Adds messages to a conversation and moves it to the top of the list
+  const appendTo = (id: string, added: ChatMessage[]) => {
+    setConversations(prev => {
+      const conversation = prev.find(item => item.id === id);
+      if (!conversation) return prev;
+      const firstQuestion = added.find(msg => msg.role === 'user');
+      const updated = {
+        ...conversation,
+        title: conversation.title || (firstQuestion ? titleFrom(firstQuestion.text) : ''),
+        messages: [...conversation.messages, ...added],
+        updatedAt: Date.now(),
+      };
+      return [updated, ...prev.filter(item => item.id !== id)];
+    });
+  };
+
+  const startConversation = () => {
+    const conversation = createConversation();
+    setConversations(prev => [conversation, ...prev]);
+    setActiveId(conversation.id);
+    return conversation.id;
+  };
+
+  // An empty chat only becomes a conversation once a question is asked
+  const selectConversation = (id: string | null) => {
+    setActiveId(id);
+    setShowList(false);
+  };
+
+  const renameConversation = (id: string, title: string) =>
+    setConversations(prev => prev.map(item => (item.id === id ? { ...item, title } : item)));
+
+  const deleteConversation = (id: string) => {
+    setConversations(prev => prev.filter(item => item.id !== id));
+    if (id === activeId) setActiveId(null);
+  };
+
+  const exportConversation = (format: 'md' | 'json') => {
+    if (!active) return;
+    const title = active.title || t('chat.untitled');
+    const named = { ...active, title };
+    if (format === 'md') {
+      const labels = { user: t('chat.you'), model: t('chat.title'), stopped: t('chat.stopped') };
+      downloadText(toMarkdown(named, labels), fileNameFor(title, 'md'), 'text/markdown');
+    } else {
+      downloadText(toJson(named), fileNameFor(title, 'json'), 'application/json');
+    }
+  };
+
+  // Photos are scaled down in the browser before they are attached
+  const addPhotos = async (files: File[]) => {
+    setPhotoError(null);
+    const images = files.filter(file => file.type.startsWith('image/')).slice(0, MAX_ATTACHMENTS - photos.length);
+    try {
+      const added = await Promise.all(images.map(readPhoto));
+      setPhotos(prev => [...prev, ...added].slice(0, MAX_ATTACHMENTS));
+    } catch (err) {
+      console.error(err);
+      setPhotoError(err instanceof Error ? err.message : String(err));
+    }
+  };
 
   const handleSend = async () => {
-    if (!input.trim() || isLoading) return;
+    if ((!input.trim() && photos.length === 0) || isLoading) return;
 
-    const userMsg: ChatMessage = { role: 'user', text: input };
-    setMessages(prev => [...prev, userMsg]);
+    // A photo on its own asks for a diagnosis
+    const question: ChatMessage = {
+      role: 'user',
+      text: input.trim() || t('chat.photoQuestion'),
+      ...(photos.length > 0 && { attachments: photos }),
+    };
+    // The answer goes to the conversation the question was asked in
+    const id = active ? active.id : startConversation();
+    appendTo(id, [question]);
     setInput('');
+    setPhotos([]);
+    await ask(id, question, messages);
+  };
+
+  // Asks the tutor and adds its answer, or a note on why there is none, to
+  // the conversation. earlier is the history before the question.
+  const ask = async (id: string, question: ChatMessage, earlier: ChatMessage[]) => {
     setIsLoading(true);
 
-    const answer = await askOpticsExpert(input, messages, language);
-    
-    setMessages(prev => [...prev, { role: 'model', text: answer }]);
+    // The simulator is saved just before the tutor first changes it
+    const actions: SimulatorAction[] = [];
+    // Typed through the initializer: it is set inside handleAction, which
+    // TypeScript's narrowing does not follow
+    let restore = null as (() => void) | null;
+    const handleAction = (action: SimulatorAction) => {
+      restore ??= onSnapshot();
+      onAction(action);
+      actions.push(action);
+    };
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const result = await askOpticsExpert(question, earlier, language, scene, setStreamed, handleAction, controller.signal);
+    const failed = result.kind !== 'success';
+    const stopped = controller.signal.aborted || failed;
+
+    // A stopped or failed answer keeps what had arrived, marked as cut short;
+    // one that ended before anything happened is dropped
+    if (result.text || actions.length > 0 || !stopped) {
+      const reply: ChatMessage = {
+        role: 'model',
+        text: result.text,
+        ...(stopped && { stopped }),
+        ...(actions.length > 0 && { actions }),
+      };
+      appendTo(id, [reply]);
+      if (restore) setLastUndo({ conversationId: id, message: reply, restore });
+    }
+    if (result.kind !== 'success') {
+      appendTo(id, [{
+        role: 'system',
+        text: '',
+        error: result.kind,
+        ...(result.retryAfterMs !== undefined && { retryAfterMs: result.retryAfterMs }),
+      }]);
+    }
+    abortRef.current = null;
+    setStreamed('');
     setIsLoading(false);
   };
 
+  const handleStop = () => abortRef.current?.abort();
+
+  // Asks the question before a failure note again. The new answer takes the
+  // place of the note and of whatever part of an answer came before it.
+  const retry = () => {
+    if (!active || isLoading) return;
+    const note = messages[messages.length - 1];
+    const partial = messages[messages.length - 2]?.role === 'model' ? messages[messages.length - 2] : null;
+    const questionIndex = messages.length - (partial ? 3 : 2);
+    const question = messages[questionIndex];
+    if (note?.role !== 'system' || question?.role !== 'user') return;
+    setConversations(prev => prev.map(item => (item.id === active.id
+      ? { ...item, messages: item.messages.filter(msg => msg !== note && msg !== partial) }
+      : item)));
+    if (partial && lastUndo?.message === partial) setLastUndo(null);
+    void ask(active.id, question, messages.slice(0, questionIndex));
+  };
+
+  const undoActions = () => {
+    if (!lastUndo) return;
+    lastUndo.restore();
+    const { conversationId, message } = lastUndo;
+    setConversations(prev => prev.map(item => item.id !== conversationId ? item : {
+      ...item,
+      messages: item.messages.map(msg => (msg === message ? { ...msg, actionsUndone: true } : msg)),
+    }));
+    setLastUndo(null);
+  };
+
   return (
     <div className="flex flex-col h-full bg-slate-900 rounded-xl border border-slate-700 overflow-hidden shadow-lg">
       <div className="bg-slate-800 p-4 border-b border-slate-700 flex items-center space-x-2">
-        <Bot className="w-5 h-5 text-optics-accent" />
-        <h3 className="font-bold text-slate-100">
-          {isZh ? 'AI 光学顾问' : 'AI Optics Consultant'}
+        <Bot className="w-5 h-5 text-optics-accent flex-shrink-0" />
+        <h3 className="font-bold text-slate-100 truncate">
+          {showList ? t('chat.conversations') : active?.title || t('chat.title')}
         </h3>
+        <div className="flex-1" />
+        {!showList && active && (
+          <>
+            <button onClick={() => exportConversation('md')} className="text-slate-400 hover:text-white transition-colors" title={t('chat.exportMarkdown')}>
+              <FileText className="w-4 h-4" />
+            </button>
+            <button onClick={() => exportConversation('json')} className="text-slate-400 hover:text-white transition-colors" title={t('chat.exportJson')}>
+              <FileBraces className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => selectConversation(null)}
+              disabled={isLoading}
+              className="text-slate-400 hover:text-white transition-colors disabled:opacity-40"
+              title={t('chat.new')}
+            >
+              <MessageSquarePlus className="w-4 h-4" />
+            </button>
+          </>
+        )}
+        <button
+          onClick={() => setShowList(!showList)}
+          className={`transition-colors ${showList ? 'text-optics-accent' : 'text-slate-400 hover:text-white'}`}
+          title={t('chat.conversations')}
+        >
+          <History className="w-4 h-4" />
+        </button>
       </div>
 
-      <div className="flex-1 overflow-y-auto p-4 space-y-4 max-h-[400px]">
-        {messages.map((msg, idx) => (
-          <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-            <div className={`max-w-[80%] p-3 rounded-lg text-sm ${
-              msg.role === 'user' 
-                ? 'bg-optics-accent text-slate-900 rounded-br-none' 
-                : 'bg-slate-800 text-slate-200 rounded-bl-none border border-slate-700'
-            }`}>
-              {msg.text.split('\n').map((line, i) => (
-                <p key={i} className="mb-1 last:mb-0">{line}</p>
-              ))}
+      {showList ? (
+        <ConversationList
+          conversations={conversations}
+          activeId={activeId}
+          disabled={isLoading}
+          onSelect={selectConversation}
+          onNew={() => selectConversation(null)}
+          onRename={renameConversation}
+          onDelete={deleteConversation}
+        />
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 max-h-[400px]">
+          {shown.map((msg, idx) => msg.role === 'system' ? (
+            <div key={idx} className="flex justify-center">
+              <div className="max-w-[90%] px-3 py-2 rounded-lg border border-amber-500/40 bg-amber-500/10 text-xs text-amber-200 flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0 text-amber-400" />
+                <div>
+                  <p>{t(`chat.error.${msg.error ?? 'unknown'}`, { seconds: Math.ceil((msg.retryAfterMs ?? 0) / 1000) })}</p>
+                  {idx === shown.length - 1 && !isLoading && (
+                    <button
+                      onClick={retry}
+                      className="inline-flex items-center mt-1.5 px-2 py-0.5 rounded-full border border-amber-500/50 text-[10px] text-amber-200 hover:text-white hover:border-amber-300 transition-colors"
+                    >
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      {t('chat.retry')}
+                    </button>
+                  )}
+                </div>
+              </div>
             </div>
-          </div>
-        ))}
-        {isLoading && (
-            <div className="flex justify-start">
-                 <div className="bg-slate-800 p-3 rounded-lg rounded-bl-none border border-slate-700">
-                    <Loader2 className="w-4 h-4 animate-spin text-optics-accent" />
-                 </div>
+          ) : (
+            <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[80%] p-3 rounded-lg text-sm ${
+                msg.role === 'user' 
+                  ? 'bg-optics-accent text-slate-900 rounded-br-none' 
+                  : 'bg-slate-800 text-slate-200 rounded-bl-none border border-slate-700'
+              }`}>
+                {msg.attachments && (
+                  <div className="flex flex-wrap gap-2 mb-2">
+                    {msg.attachments.map((photo, i) => (
+                      <img key={i} src={attachmentUrl(photo)} alt={photo.name} title={photo.name} className="h-24 max-w-full rounded object-cover" />
+                    ))}
+                  </div>
+                )}
+                {msg.role === 'model' ? (
+                  <ChatMarkdown text={msg.text} />
+                ) : (
+                  msg.text.split('\n').map((line, i) => (
+                    <p key={i} className="mb-1 last:mb-0">{line}</p>
+                  ))
+                )}
+                {msg.stopped && (
+                  <p className="mt-1 text-[10px] italic text-slate-500">{t('chat.stopped')}</p>
+                )}
+                {msg.actions && (
+                  <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                    {msg.actions.map((action, i) => (
+                      <span
+                        key={i}
+                        className={`inline-flex items-center px-2 py-0.5 rounded-full border text-[10px] ${
+                          msg.actionsUndone
+                            ? 'border-slate-600 text-slate-500 line-through'
+                            : 'border-optics-accent/40 bg-optics-accent/10 text-optics-accent'
+                        }`}
+                      >
+                        <WandSparkles className="w-3 h-3 mr-1" />
+                        {describeAction(action, t, localize)}
+                      </span>
+                    ))}
+                    {lastUndo?.message === msg && (
+                      <button
+                        onClick={undoActions}
+                        className="inline-flex items-center px-2 py-0.5 rounded-full border border-slate-600 text-[10px] text-slate-300 hover:text-white hover:border-slate-400 transition-colors"
+                      >
+                        <Undo2 className="w-3 h-3 mr-1" />
+                        {t('chat.undo')}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
             </div>
-        )}
-        <div ref={messagesEndRef} />
-      </div>
+          ))}
+          {isLoading && !streamed && (
+              <div className="flex justify-start">
+                   <div className="bg-slate-800 p-3 rounded-lg rounded-bl-none border border-slate-700">
+                      <Loader2 className="w-4 h-4 animate-spin text-optics-accent" />
+                   </div>
+              </div>
+          )}
+          <div ref={messagesEndRef} />
+        </div>
+      )}
 
-      <div className="p-4 bg-slate-800 border-t border-slate-700">
+      <div className="p-4 bg-slate-800 border-t border-slate-700 space-y-2">
+        {photos.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {photos.map((photo, i) => (
+              <div key={i} className="relative">
+                <img src={attachmentUrl(photo)} alt={photo.name} title={photo.name} className="w-12 h-12 rounded object-cover border border-slate-600" />
+                <button
+                  onClick={() => setPhotos(photos.filter((_, j) => j !== i))}
+                  className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-slate-700 text-slate-200 hover:bg-red-500 transition-colors"
+                  title={t('chat.removePhoto')}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {photoError && <p className="text-xs text-red-400">{t('chat.photoError', { detail: photoError })}</p>}
         <div className="flex items-center space-x-2">
+          <button
+            onClick={() => photoInputRef.current?.click()}
+            disabled={photos.length >= MAX_ATTACHMENTS}
+            className="p-2 text-slate-400 hover:text-white transition-colors disabled:opacity-40"
+            title={t('chat.attachPhoto', { max: MAX_ATTACHMENTS })}
+          >
+            <ImagePlus className="w-4 h-4" />
+          </button>
+          <input
+            ref={photoInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              addPhotos(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
           <input
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-            placeholder={isZh ? "例如：为什么低角度适合检测划痕？" : "Ex: Why is low angle good for scratches?"}
+            // Screenshots can be pasted straight in
+            onPaste={(e) => {
+              const pasted = Array.from(e.clipboardData.files);
+              if (pasted.length > 0) addPhotos(pasted);
+            }}
+            placeholder={t('chat.placeholder')}
             className="flex-1 bg-slate-900 border border-slate-600 rounded-full px-4 py-2 text-sm text-slate-100 focus:outline-none focus:border-optics-accent transition-colors"
           />
-          <button 
-            onClick={handleSend}
-            disabled={isLoading}
-            className="p-2 bg-optics-accent text-slate-900 rounded-full hover:bg-cyan-400 transition-colors disabled:opacity-50"
-          >
-            <Send className="w-4 h-4" />
-          </button>
+          {isLoading ? (
+            <button
+              onClick={handleStop}
+              title={t('chat.stop')}
+              className="p-2 bg-slate-600 text-slate-100 rounded-full hover:bg-slate-500 transition-colors"
+            >
+              <Square className="w-4 h-4 fill-current" />
+            </button>
+          ) : (
+            <button 
+              onClick={handleSend}
+              className="p-2 bg-optics-accent text-slate-900 rounded-full hover:bg-cyan-400 transition-colors"
+            >
+              <Send className="w-4 h-4" />
+            </button>
+          )}
         </div>
       </div>
     </div>
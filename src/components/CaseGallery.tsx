@@ -0,0 +1,121 @@
+import React, { useMemo } from 'react';
+import { CaseLighting, ExampleCase } from '../types';
+import { ArrowRight, BookOpen } from 'lucide-react';
+import { EXAMPLE_CASES } from '../data/exampleCases';
+import { buildLightingSetup, presetLights } from '../optics/lightingModes';
+import { MATERIALS, RED_INK, toLights3D } from '../optics/materials';
+import { DEFAULT_CAMERA, SCENE } from '../optics/scene';
+import { applySpectrum, spectralResponse } from '../optics/spectrum';
+import { NO_POLARIZATION } from '../optics/polarization';
+import { buildCoinHeightmap, featureRelief, rasterizeCoinInk, rasterizeCoinMarking } from '../optics/heightmap';
+import { captureLevels, computeNormals, writeGrayscale } from '../optics/imageRenderer';
+import PixelCanvas from './PixelCanvas';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface CaseGalleryProps {
+  selectedId: string | null;
+  onSelect: (example: ExampleCase) => void;
+  onShowSimulator: () => void;
+}
+
+const THUMB_SIZE = 96;
+
+// What the default camera records for a case under one of its setups
+const renderCase = (example: ExampleCase, lighting: CaseLighting, marking: Float32Array, ink: Uint8Array) => {
+  const spectral = spectralResponse(lighting.lightColor, 'none');
+  const setup = buildLightingSetup(presetLights(lighting.mode), example.profile);
+  const map = buildCoinHeightmap(THUMB_SIZE, marking, featureRelief(example.profile, SCENE.surfaceY), ink);
+  const levels = captureLevels(
+    map,
+    computeNormals(map),
+    toLights3D(setup.lights),
+    {
+      material: applySpectrum(MATERIALS[example.material], spectral),
+      inkMaterial: applySpectrum(RED_INK, spectral),
+      camera: DEFAULT_CAMERA,
+      backlight: setup.backlight,
+      exposure: spectral.exposure,
+      polarization: NO_POLARIZATION,
+    },
+    THUMB_SIZE
+  );
+  const pixels = new Uint8ClampedArray(THUMB_SIZE * THUMB_SIZE * 4);
+  writeGrayscale(levels, pixels);
+  return pixels;
+};
+
+const CaseGallery: React.FC<CaseGalleryProps> = ({ selectedId, onSelect, onShowSimulator }) => {
+  const { t, localize } = useTranslation();
+  const selected = EXAMPLE_CASES.find(example => example.id === selectedId) ?? EXAMPLE_CASES[0];
+
+  const marking = useMemo(() => rasterizeCoinMarking(THUMB_SIZE), []);
+  const ink = useMemo(() => rasterizeCoinInk(THUMB_SIZE), []);
+  const comparison = useMemo(
+    () => [
+      { key: 'before', lighting: selected.before, pixels: renderCase(selected, selected.before, marking, ink) },
+      { key: 'after', lighting: selected.recommended, pixels: renderCase(selected, selected.recommended, marking, ink) },
+    ],
+    [selected, marking, ink]
+  );
+
+  const lightingLabel = ({ mode, lightColor }: CaseLighting) => {
+    const name = t(`mode.${mode}`);
+    return lightColor === 'white' ? name : `${name} · ${t(`lightColor.${lightColor}`)}`;
+  };
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700/50 space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+        {EXAMPLE_CASES.map(example => (
+          <button
+            key={example.id}
+            onClick={() => onSelect(example)}
+            className={`px-3 py-2 rounded-lg text-xs text-left transition-colors ${
+              example.id === selectedId
+                ? 'bg-optics-accent text-slate-900 font-semibold'
+                : 'bg-slate-900 text-slate-300 border border-slate-700 hover:border-slate-500'
+            }`}
+          >
+            {localize(example.name)}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="flex items-center text-sm font-semibold text-slate-200">
+          <BookOpen className="w-4 h-4 mr-2 text-optics-accent" />
+          {localize(selected.name)}
+        </h4>
+        <p className="text-sm text-slate-400">{localize(selected.description)}</p>
+
+        {/* Same part under the usual first attempt and under the recommended setup */}
+        <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-3">
+          {comparison.map(({ key, lighting, pixels }, i) => (
+            <React.Fragment key={key}>
+              {i > 0 && <ArrowRight className="w-4 h-4 text-slate-500" />}
+              <div className="space-y-1">
+                <div className={`text-[10px] uppercase tracking-widest ${key === 'after' ? 'text-green-400' : 'text-slate-500'}`}>
+                  {key === 'after' ? t('cases.recommended') : t('cases.firstAttempt')}
+                </div>
+                <PixelCanvas pixels={pixels} size={THUMB_SIZE} border={key === 'after' ? '#4ade80' : '#475569'} />
+                <div className="text-[10px] font-mono uppercase text-slate-400">{lightingLabel(lighting)}</div>
+              </div>
+            </React.Fragment>
+          ))}
+        </div>
+
+        <button
+          onClick={() => {
+            onSelect(selected);
+            onShowSimulator();
+          }}
+          className="w-full py-2 rounded-lg bg-slate-900 border border-slate-700 text-xs text-slate-300 hover:text-white hover:border-optics-accent transition-colors"
+        >
+          {t('cases.open')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CaseGallery;
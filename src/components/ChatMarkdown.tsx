@@ -0,0 +1,51 @@
+import React from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import 'katex/dist/katex.min.css';
+
+// Tailwind has no typography plugin here, so every element gets its classes
+const COMPONENTS: Components = {
+  p: ({ children }) => <p className="mb-2 last:mb-0 leading-relaxed">{children}</p>,
+  h1: ({ children }) => <h4 className="mb-2 font-bold text-slate-100">{children}</h4>,
+  h2: ({ children }) => <h4 className="mb-2 font-bold text-slate-100">{children}</h4>,
+  h3: ({ children }) => <h5 className="mb-1 font-semibold text-slate-100">{children}</h5>,
+  ul: ({ children }) => <ul className="mb-2 last:mb-0 pl-5 list-disc space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="mb-2 last:mb-0 pl-5 list-decimal space-y-1">{children}</ol>,
+  strong: ({ children }) => <strong className="font-semibold text-white">{children}</strong>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-optics-accent underline hover:text-cyan-300">
+      {children}
+    </a>
+  ),
+  blockquote: ({ children }) => <blockquote className="mb-2 pl-3 border-l-2 border-slate-600 text-slate-400">{children}</blockquote>,
+  code: ({ children }) => <code className="px-1 rounded bg-slate-900 text-cyan-300 font-mono text-[0.85em]">{children}</code>,
+  pre: ({ children }) => (
+    <pre className="mb-2 last:mb-0 p-2 rounded bg-slate-950 overflow-x-auto text-xs [&_code]:p-0 [&_code]:bg-transparent">{children}</pre>
+  ),
+  table: ({ children }) => (
+    <div className="mb-2 last:mb-0 overflow-x-auto">
+      <table className="text-xs border-collapse">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="px-2 py-1 border border-slate-600 bg-slate-900 text-left font-semibold">{children}</th>,
+  td: ({ children }) => <td className="px-2 py-1 border border-slate-700">{children}</td>,
+  hr: () => <hr className="my-2 border-slate-700" />,
+};
+
+interface ChatMarkdownProps {
+  text: string;
+}
+
+// Markdown with GitHub tables and $…$ / $$…$$ math. HTML in the text is
+// shown as text rather than parsed, and unsafe link targets are dropped.
+const ChatMarkdown: React.FC<ChatMarkdownProps> = ({ text }) => (
+  <div className="[&_.katex-display]:overflow-x-auto [&_.katex-display]:my-2">
+    <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex]} components={COMPONENTS}>
+      {text}
+    </ReactMarkdown>
+  </div>
+);
+
+export default ChatMarkdown;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { MessageSquarePlus, Pencil, Trash2 } from 'lucide-react';
+import { Conversation } from '../types';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface ConversationListProps {
+  conversations: Conversation[]; // Newest first
+  activeId: string | null;
+  disabled: boolean; // While an answer is streaming into the open one
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ConversationList: React.FC<ConversationListProps> = ({
+  conversations,
+  activeId,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+}) => {
+  const { language, t } = useTranslation();
+  const [editing, setEditing] = useState<{ id: string; title: string } | null>(null);
+
+  const commitRename = () => {
+    if (editing && editing.title.trim()) onRename(editing.id, editing.title.trim());
+    setEditing(null);
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-3 space-y-2 max-h-[400px]">
+      <button
+        onClick={onNew}
+        disabled={disabled}
+        className="w-full flex items-center justify-center space-x-2 p-2 rounded-lg border border-dashed border-slate-600 text-xs text-slate-300 hover:border-optics-accent hover:text-white transition-colors disabled:opacity-40"
+      >
+        <MessageSquarePlus className="w-4 h-4" />
+        <span>{t('chat.new')}</span>
+      </button>
+
+      {conversations.length === 0 && (
+        <p className="text-xs text-slate-500 text-center py-4">{t('chat.noConversations')}</p>
+      )}
+
+      {conversations.map(conversation => (
+        <div
+          key={conversation.id}
+          className={`group flex items-center p-2 rounded-lg border text-sm transition-colors ${
+            conversation.id === activeId ? 'bg-slate-800 border-optics-accent/60' : 'bg-slate-900 border-slate-700 hover:border-slate-500'
+          }`}
+        >
+          {editing?.id === conversation.id ? (
+            <input
+              autoFocus
+              value={editing.title}
+              onChange={(e) => setEditing({ id: conversation.id, title: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setEditing(null);
+              }}
+              onBlur={commitRename}
+              className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-slate-100 focus:outline-none focus:border-optics-accent"
+            />
+          ) : (
+            <>
+              <button
+                onClick={() => onSelect(conversation.id)}
+                disabled={disabled}
+                className="flex-1 min-w-0 text-left disabled:cursor-not-allowed"
+              >
+                <div className="truncate text-slate-200">{conversation.title || t('chat.untitled')}</div>
+                <div className="text-[10px] text-slate-500">
+                  {new Date(conversation.updatedAt).toLocaleString(language)}
+                  {' · '}
+                  {t('chat.messageCount', { count: conversation.messages.filter(msg => msg.role !== 'system').length })}
+                </div>
+              </button>
+              <button
+                onClick={() => setEditing({ id: conversation.id, title: conversation.title })}
+                className="ml-2 text-slate-500 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                title={t('chat.rename')}
+              >
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => onDelete(conversation.id)}
+                disabled={disabled && conversation.id === activeId}
+                className="ml-2 text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity disabled:hidden"
+                title={t('chat.delete')}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ConversationList;
@@ -0,0 +1,111 @@
+import React from 'react';
+import { LensKind, LensSettings } from '../types';
+import { Aperture, RotateCcw } from 'lucide-react';
+import { DEFAULT_LENS, describeLens } from '../optics/lens';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface LensPanelProps {
+  lens: LensSettings;
+  onChange: (lens: LensSettings) => void;
+}
+
+const LENS_KINDS: LensKind[] = ['entocentric', 'telecentric'];
+
+const F_NUMBERS = [1.4, 2, 2.8, 4, 5.6, 8, 11, 16];
+
+// Common machine-vision sensor formats and their width in mm
+const SENSORS: { label: string; width: number }[] = [
+  { label: '1/2.5"', width: 5.76 },
+  { label: '1/1.8"', width: 7.2 },
+  { label: '2/3"', width: 8.8 },
+  { label: '1"', width: 12.8 },
+  { label: '1.1"', width: 14.1 },
+];
+
+const LensPanel: React.FC<LensPanelProps> = ({ lens, onChange }) => {
+  const { t } = useTranslation();
+  const summary = describeLens(lens);
+  const update = (changes: Partial<LensSettings>) => onChange({ ...lens, ...changes });
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700/50 space-y-3">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-2 text-sm font-semibold text-slate-300">
+          <Aperture className="w-4 h-4 text-optics-accent" />
+          <span>{t('lens.title')}</span>
+        </div>
+        <button
+          onClick={() => onChange(DEFAULT_LENS)}
+          className="flex items-center space-x-1 text-xs text-slate-400 hover:text-white transition-colors"
+        >
+          <RotateCcw className="w-3 h-3" />
+          <span>{t('common.reset')}</span>
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {LENS_KINDS.map(kind => (
+          <button
+            key={kind}
+            onClick={() => update({ kind })}
+            className={`px-3 py-1 rounded-full text-xs transition-colors ${
+              lens.kind === kind
+                ? 'bg-optics-accent text-slate-900 font-semibold'
+                : 'bg-slate-900 text-slate-400 border border-slate-700 hover:text-white'
+            }`}
+          >
+            {t(`lens.${kind}`)}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-xs text-slate-400">
+        <label className="space-y-1">
+          <span>{t('lens.focalLength')}: {lens.focalLength} mm</span>
+          <input
+            type="range"
+            min={6}
+            max={50}
+            value={lens.focalLength}
+            onChange={(e) => {
+              // Keep the part outside the focal length so the lens can still focus
+              const focalLength = Number(e.target.value);
+              update({ focalLength, workingDistance: Math.max(lens.workingDistance, focalLength + 10) });
+            }}
+            className="w-full accent-cyan-500"
+          />
+        </label>
+        <label className="space-y-1">
+          <span>{t('lens.workingDistance')}: {lens.workingDistance} mm</span>
+          <input type="range" min={lens.focalLength + 10} max={500} step={5} value={lens.workingDistance} onChange={(e) => update({ workingDistance: Number(e.target.value) })} className="w-full accent-cyan-500" />
+        </label>
+        <label className="space-y-1">
+          <span>{t('lens.aperture')}</span>
+          <select value={lens.fNumber} onChange={(e) => update({ fNumber: Number(e.target.value) })} className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300">
+            {F_NUMBERS.map(n => <option key={n} value={n}>f/{n}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span>{t('lens.sensorSize')}</span>
+          <select value={lens.sensorWidth} onChange={(e) => update({ sensorWidth: Number(e.target.value) })} className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300">
+            {SENSORS.map(sensor => <option key={sensor.label} value={sensor.width}>{sensor.label} ({sensor.width} mm)</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-[10px] font-mono text-slate-500">
+        <span>{t('lens.magnification')} {summary.magnification.toFixed(3)}×</span>
+        <span>{t('common.fov')} {summary.fieldOfView.toFixed(1)} mm</span>
+        <span>NA {summary.numericalAperture.toFixed(3)}</span>
+        <span>{t('lens.fieldAngle')} ±{summary.halfFieldAngle.toFixed(1)}°</span>
+      </div>
+      <p className="text-[10px] text-slate-500">
+        {lens.kind === 'telecentric'
+          ? t('lens.telecentricNote')
+          : t('lens.entocentricNote')}
+      </p>
+    </div>
+  );
+};
+
+export default LensPanel;
@@ -0,0 +1,122 @@
+import React from 'react';
+import { Lesson, SimulatorState } from '../types';
+import { CheckCircle2, ChevronLeft, ChevronRight, Circle, Footprints, List, X } from 'lucide-react';
+import { LESSONS } from '../data/lessons';
+import { conditionMet } from '../optics/lessons';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface LessonPlayerProps {
+  lesson: Lesson | null; // null lists the lessons to choose from
+  stepIndex: number;
+  simulator: SimulatorState;
+  onStart: (lesson: Lesson) => void;
+  onStepChange: (index: number) => void;
+  onLeaveLesson: () => void;
+  onClose: () => void;
+}
+
+const LessonPlayer: React.FC<LessonPlayerProps> = ({
+  lesson,
+  stepIndex,
+  simulator,
+  onStart,
+  onStepChange,
+  onLeaveLesson,
+  onClose,
+}) => {
+  const { t, localize } = useTranslation();
+
+  const header = (
+    <div className="flex justify-between items-center">
+      <div className="flex items-center space-x-2 text-sm font-semibold text-slate-300">
+        <Footprints className="w-4 h-4 text-optics-accent" />
+        <span>{lesson ? localize(lesson.title) : t('lessons.title')}</span>
+        {lesson && (
+          <span className="text-xs font-normal text-slate-500">
+            {t('lessons.step', { step: stepIndex + 1, total: lesson.steps.length })}
+          </span>
+        )}
+      </div>
+      <div className="flex items-center space-x-3">
+        {lesson && (
+          <button onClick={onLeaveLesson} className="text-slate-400 hover:text-white transition-colors" title={t('lessons.all')}>
+            <List className="w-4 h-4" />
+          </button>
+        )}
+        <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors" title={t('common.close')}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+
+  if (!lesson) {
+    return (
+      <div className="bg-slate-800/50 p-4 rounded-xl border border-optics-accent/40 space-y-3">
+        {header}
+        <div className="space-y-2">
+          {LESSONS.map(item => (
+            <button
+              key={item.id}
+              onClick={() => onStart(item)}
+              className="w-full text-left p-3 rounded-lg bg-slate-900 border border-slate-700 hover:border-optics-accent transition-colors"
+            >
+              <div className="flex justify-between items-center text-sm font-semibold text-slate-200">
+                <span>{localize(item.title)}</span>
+                <span className="text-[10px] font-mono font-normal text-slate-500">
+                  {t('lessons.steps', { count: item.steps.length })}
+                </span>
+              </div>
+              <p className="text-xs text-slate-400 mt-1">{localize(item.summary)}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const step = lesson.steps[stepIndex];
+  // A step without a task can always be left; otherwise the simulator has to get there first
+  const done = !step.waitFor || conditionMet(step.waitFor, simulator);
+  const last = stepIndex === lesson.steps.length - 1;
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-xl border border-optics-accent/40 space-y-4">
+      {header}
+
+      <div className="h-1 bg-slate-900 rounded-full overflow-hidden">
+        <div className="h-full bg-optics-accent transition-all" style={{ width: `${((stepIndex + 1) / lesson.steps.length) * 100}%` }} />
+      </div>
+
+      <p className="text-sm text-slate-200 leading-relaxed">{localize(step.narration)}</p>
+
+      {step.task && (
+        <div className={`flex items-center p-3 rounded-lg border text-xs ${done ? 'bg-green-900/20 border-green-800/50 text-green-300' : 'bg-amber-900/20 border-amber-800/50 text-amber-200'}`}>
+          {done ? <CheckCircle2 className="w-4 h-4 mr-2 flex-shrink-0" /> : <Circle className="w-4 h-4 mr-2 flex-shrink-0 animate-pulse" />}
+          <span>{localize(step.task)}</span>
+        </div>
+      )}
+
+      <div className="flex justify-between items-center">
+        <button
+          onClick={() => onStepChange(stepIndex - 1)}
+          disabled={stepIndex === 0}
+          className="flex items-center text-xs text-slate-400 hover:text-white transition-colors disabled:opacity-30"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          {t('lessons.back')}
+        </button>
+        <button
+          onClick={() => (last ? onLeaveLesson() : onStepChange(stepIndex + 1))}
+          disabled={!done}
+          className="flex items-center px-4 py-2 rounded-lg bg-optics-accent text-slate-900 text-xs font-semibold hover:bg-cyan-400 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {last ? t('lessons.finish') : t('lessons.next')}
+          {!last && <ChevronRight className="w-4 h-4" />}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LessonPlayer;
@@ -0,0 +1,122 @@
+import React from 'react';
+import { LightFixture, SceneLight } from '../types';
+import { Eye, EyeOff, Lightbulb, Plus, Trash2 } from 'lucide-react';
+import { ComboPreset, comboLights, sceneLightColor } from '../optics/lightingModes';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface LightsPanelProps {
+  lights: SceneLight[];
+  onChange: (lights: SceneLight[]) => void;
+}
+
+const FIXTURES: LightFixture[] = ['spot', 'coaxial', 'ring', 'dome', 'backlight'];
+
+const COMBOS: ComboPreset[] = ['coaxialRing', 'quadrant'];
+
+// Beyond this many lamps the diagram gets too crowded to read
+const MAX_LIGHTS = 6;
+
+const LightsPanel: React.FC<LightsPanelProps> = ({ lights, onChange }) => {
+  const { t } = useTranslation();
+  const update = (id: number, changes: Partial<SceneLight>) =>
+    onChange(lights.map(light => (light.id === id ? { ...light, ...changes } : light)));
+
+  const addLight = () => {
+    const id = lights.reduce((max, light) => Math.max(max, light.id), -1) + 1;
+    onChange([...lights, { id, fixture: 'spot', angle: 45, azimuth: 0, intensity: 1, enabled: true }]);
+  };
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700/50 space-y-3">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-2 text-sm font-semibold text-slate-300">
+          <Lightbulb className="w-4 h-4 text-optics-accent" />
+          <span>{t('lights.title')}</span>
+        </div>
+        <button
+          onClick={addLight}
+          disabled={lights.length >= MAX_LIGHTS}
+          className="flex items-center space-x-1 text-xs text-slate-400 hover:text-white transition-colors disabled:opacity-40"
+        >
+          <Plus className="w-3 h-3" />
+          <span>{t('lights.add')}</span>
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {COMBOS.map(combo => (
+          <button
+            key={combo}
+            onClick={() => onChange(comboLights(combo))}
+            className="px-3 py-1 rounded-full text-xs bg-slate-900 text-slate-400 border border-slate-700 hover:text-white transition-colors"
+          >
+            {t(`combo.${combo}`)}
+          </button>
+        ))}
+      </div>
+
+      <ul className="space-y-2">
+        {lights.map(light => (
+          <li
+            key={light.id}
+            className={`p-3 rounded-lg bg-slate-900/60 border border-slate-700/60 space-y-2 ${light.enabled ? '' : 'opacity-50'}`}
+          >
+            <div className="flex items-center space-x-2">
+              <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: sceneLightColor(light.id) }}></span>
+              <select
+                value={light.fixture}
+                onChange={(e) => update(light.id, { fixture: e.target.value as LightFixture })}
+                className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300"
+              >
+                {FIXTURES.map(fixture => (
+                  <option key={fixture} value={fixture}>{t(`fixture.${fixture}`)}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => update(light.id, { enabled: !light.enabled })}
+                title={light.enabled ? t('lights.turnOff') : t('lights.turnOn')}
+                className="p-1 text-slate-400 hover:text-white transition-colors"
+              >
+                {light.enabled ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+              </button>
+              <button
+                onClick={() => onChange(lights.filter(other => other.id !== light.id))}
+                title={t('lights.remove')}
+                className="p-1 text-slate-400 hover:text-red-400 transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs text-slate-400">
+              {(light.fixture === 'spot' || light.fixture === 'ring') && (
+                <label className="space-y-1">
+                  <span>{t('lights.angle')}: {light.angle}°</span>
+                  <input type="range" min={0} max={90} value={light.angle} onChange={(e) => update(light.id, { angle: Number(e.target.value) })} className="w-full accent-cyan-500" />
+                </label>
+              )}
+              {light.fixture === 'spot' && (
+                <label className="space-y-1">
+                  <span>{t('lights.azimuth')}: {light.azimuth}°</span>
+                  <input type="range" min={0} max={345} step={15} value={light.azimuth} onChange={(e) => update(light.id, { azimuth: Number(e.target.value) })} className="w-full accent-cyan-500" />
+                </label>
+              )}
+              <label className="space-y-1">
+                <span>{t('lights.intensity')}: {Math.round(light.intensity * 100)}%</span>
+                <input type="range" min={0} max={1.5} step={0.05} value={light.intensity} onChange={(e) => update(light.id, { intensity: Number(e.target.value) })} className="w-full accent-cyan-500" />
+              </label>
+            </div>
+          </li>
+        ))}
+      </ul>
+      {lights.length === 0 && (
+        <p className="text-xs text-slate-500">{t('lights.none')}</p>
+      )}
+      <p className="text-[10px] text-slate-500">
+        {t('lights.note')}
+      </p>
+    </div>
+  );
+};
+
+export default LightsPanel;
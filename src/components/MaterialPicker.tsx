@@ -0,0 +1,49 @@
+import React from 'react';
+import { MaterialId } from '../types';
+import { Layers } from 'lucide-react';
+import { MATERIALS } from '../optics/materials';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface MaterialPickerProps {
+  materialId: MaterialId;
+  onChange: (id: MaterialId) => void;
+}
+
+const MaterialPicker: React.FC<MaterialPickerProps> = ({ materialId, onChange }) => {
+  const { t } = useTranslation();
+  const material = MATERIALS[materialId];
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700/50 space-y-3">
+      <div className="flex items-center space-x-2 text-sm font-semibold text-slate-300">
+        <Layers className="w-4 h-4 text-optics-accent" />
+        <span>{t('material.title')}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(MATERIALS) as MaterialId[]).map(id => (
+          <button
+            key={id}
+            onClick={() => onChange(id)}
+            className={`px-3 py-1 rounded-full text-xs transition-colors ${
+              id === materialId
+                ? 'bg-pink-500 text-slate-900 font-semibold'
+                : 'bg-slate-900 text-slate-400 border border-slate-700 hover:text-white'
+            }`}
+          >
+            {t(`material.${id}`)}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-[10px] font-mono text-slate-500">
+        <span className="text-slate-300">{t(`material.${materialId}.hint`)}</span>
+        <span>{t('material.specular')} {Math.round(material.reflectance * 100)}%</span>
+        <span>{t('material.diffuse')} {Math.round(material.albedo * 100)}%</span>
+        <span>{t('material.lobe')} +{material.lobeWidth}°</span>
+      </div>
+    </div>
+  );
+};
+
+export default MaterialPicker;
@@ -0,0 +1,116 @@
+import React, { useRef, useState } from 'react';
+import { CustomPart } from '../types';
+import { Upload, X } from 'lucide-react';
+import { loadHeightmapImage, parseDepthCsv } from '../optics/heightmap';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface PartLoaderProps {
+  part: CustomPart | null;
+  onLoad: (part: CustomPart) => void;
+  onClear: () => void;
+  relief: number;
+  onReliefChange: (relief: number) => void;
+  sectionRow: number;
+  onSectionRowChange: (row: number) => void;
+}
+
+const isCsv = (file: File) => file.type === 'text/csv' || /\.(csv|txt)$/i.test(file.name);
+
+const PartLoader: React.FC<PartLoaderProps> = ({
+  part,
+  onLoad,
+  onClear,
+  relief,
+  onReliefChange,
+  sectionRow,
+  onSectionRowChange,
+}) => {
+  const { t } = useTranslation();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null); // Reason the last file was rejected
+
+  // Everything is decoded in the browser; nothing is uploaded
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const map = isCsv(file) ? parseDepthCsv(await file.text()) : await loadHeightmapImage(file);
+      onLoad({ name: file.name, map });
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleFile(file);
+  };
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700/50 space-y-3">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-2 text-sm font-semibold text-slate-300">
+          <Upload className="w-4 h-4 text-optics-accent" />
+          <span>{t('part.title')}</span>
+        </div>
+        {part && (
+          <button
+            onClick={onClear}
+            className="flex items-center space-x-1 text-xs text-slate-400 hover:text-white transition-colors"
+          >
+            <X className="w-3 h-3" />
+            <span>{t('part.backToCoin')}</span>
+          </button>
+        )}
+      </div>
+
+      {/* Drop zone doubles as the file picker */}
+      <div
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={`cursor-pointer rounded-lg border-2 border-dashed p-4 text-center text-xs transition-colors ${
+          dragging ? 'border-optics-accent text-optics-accent' : 'border-slate-700 text-slate-400 hover:border-slate-500'
+        }`}
+      >
+        {part
+          ? <span className="font-mono text-slate-300">{part.name} ({part.map.width}×{part.map.height})</span>
+          : t('part.drop')}
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*,.csv,.txt,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {error && <p className="text-xs text-red-400">{t('part.readError', { detail: error })}</p>}
+
+      {part && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-xs text-slate-400">
+          <label className="space-y-1">
+            <span>{t('part.relief')}: {relief}px</span>
+            <input type="range" min={1} max={12} value={relief} onChange={(e) => onReliefChange(Number(e.target.value))} className="w-full accent-cyan-500" />
+          </label>
+          <label className="space-y-1">
+            <span>{t('part.sectionRow')}: {sectionRow}</span>
+            <input type="range" min={0} max={part.map.height - 1} value={sectionRow} onChange={(e) => onSectionRowChange(Number(e.target.value))} className="w-full accent-cyan-500" />
+          </label>
+        </div>
+      )}
+      <p className="text-[10px] text-slate-500">
+        {t('part.note')}
+      </p>
+    </div>
+  );
+};
+
+export default PartLoader;
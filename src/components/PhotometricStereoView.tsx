@@ -0,0 +1,147 @@
+import React, { useMemo } from 'react';
+import { Heightmap, SceneLight } from '../types';
+import { LightingSetup, sceneLightColor } from '../optics/lightingModes';
+import { toLights3D } from '../optics/materials';
+import { RenderOptions, captureLevels, writeGrayscale } from '../optics/imageRenderer';
+import { MIN_CAPTURES, StereoCapture, lampVector, reconstructSurface } from '../optics/photometricStereo';
+import PixelCanvas from './PixelCanvas';
+import { TranslationKey } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface PhotometricStereoViewProps {
+  heightmap: Heightmap;
+  normals: Float32Array;
+  setup: LightingSetup;
+  sceneLights: SceneLight[];
+  options: RenderOptions;
+  size: number;
+}
+
+// Normal map in the usual encoding: x, y, z mapped from -1..1 to red, green, blue
+const normalPixels = (normals: Float32Array) => {
+  const out = new Uint8ClampedArray((normals.length / 3) * 4);
+  for (let p = 0; p < normals.length / 3; p++) {
+    out[p * 4] = (normals[p * 3] + 1) * 127.5;
+    out[p * 4 + 1] = (normals[p * 3 + 1] + 1) * 127.5;
+    out[p * 4 + 2] = (normals[p * 3 + 2] + 1) * 127.5;
+    out[p * 4 + 3] = 255;
+  }
+  return out;
+};
+
+type StereoMap = 'normals' | 'albedo' | 'curvature';
+
+const MAP_LABELS: Record<StereoMap, TranslationKey> = {
+  normals: 'stereo.normals',
+  albedo: 'stereo.albedo',
+  curvature: 'stereo.curvature',
+};
+
+const grayPixels = (levels: Float32Array) => {
+  const out = new Uint8ClampedArray(levels.length * 4);
+  writeGrayscale(levels, out);
+  return out;
+};
+
+// Bumps in warm, hollows in cool tones, scaled so a few sharp edges do not
+// wash out the rest
+const curvaturePixels = (curvature: Float32Array) => {
+  const magnitudes = Array.from(curvature, Math.abs).filter(k => k > 0).sort((a, b) => a - b);
+  const scale = magnitudes[Math.floor(magnitudes.length * 0.98)] || 1;
+  const out = new Uint8ClampedArray(curvature.length * 4);
+  curvature.forEach((k, p) => {
+    const t = Math.max(-1, Math.min(1, k / scale));
+    out[p * 4] = 30 + Math.max(0, t) * 225;
+    out[p * 4 + 1] = 30 + Math.abs(t) * 90;
+    out[p * 4 + 2] = 30 + Math.max(0, -t) * 225;
+    out[p * 4 + 3] = 255;
+  });
+  return out;
+};
+
+const PhotometricStereoView: React.FC<PhotometricStereoViewProps> = ({
+  heightmap,
+  normals,
+  setup,
+  sceneLights,
+  options,
+  size,
+}) => {
+  const { t } = useTranslation();
+
+  // One capture per lamp lighting the part from above, fired on its own
+  const captures = useMemo(
+    () =>
+      sceneLights
+        .filter(light => light.enabled)
+        .map(light => {
+          const lights = toLights3D(setup.lights.filter(beam => beam.sourceId === light.id));
+          const capture: StereoCapture = {
+            lamp: lampVector(lights),
+            levels: captureLevels(heightmap, normals, lights, { ...options, backlight: 0 }, size),
+          };
+          return { light, capture, pixels: grayPixels(capture.levels) };
+        })
+        .filter(({ capture }) => capture.lamp.z > 0),
+    [sceneLights, setup, heightmap, normals, options, size]
+  );
+
+  const reconstruction = useMemo(
+    () => reconstructSurface(captures.map(({ capture }) => capture), size),
+    [captures, size]
+  );
+  const maps = useMemo(
+    () =>
+      reconstruction && [
+        { key: 'normals' as StereoMap, pixels: normalPixels(reconstruction.normals) },
+        { key: 'albedo' as StereoMap, pixels: grayPixels(reconstruction.albedo) },
+        { key: 'curvature' as StereoMap, pixels: curvaturePixels(reconstruction.curvature) },
+      ],
+    [reconstruction]
+  );
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="space-y-1">
+        <div className="text-[10px] text-slate-500 uppercase tracking-widest">
+          {t('stereo.captures')}
+        </div>
+        <div className="grid grid-cols-4 gap-1">
+          {captures.map(({ light, pixels }) => (
+            <div key={light.id} className="space-y-0.5">
+              <PixelCanvas pixels={pixels} size={size} border={sceneLightColor(light.id)} />
+              <div className="text-[9px] font-mono text-slate-500 text-center">
+                {light.fixture === 'spot' ? `∠${light.azimuth}°` : light.fixture}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-[10px] text-slate-500 uppercase tracking-widest">
+          {t('stereo.reconstruction')}
+        </div>
+        {maps ? (
+          <div className="grid grid-cols-3 gap-2">
+            {maps.map(map => (
+              <div key={map.key} className="space-y-0.5">
+                <PixelCanvas pixels={map.pixels} size={size} />
+                <div className="text-[10px] text-slate-400 text-center">{t(MAP_LABELS[map.key])}</div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-amber-400">
+            {t('stereo.needLights', { count: MIN_CAPTURES })}
+          </p>
+        )}
+      </div>
+      <p className="text-[10px] text-slate-500">
+        {t('stereo.note')}
+      </p>
+    </div>
+  );
+};
+
+export default PhotometricStereoView;
@@ -0,0 +1,31 @@
+import React, { useEffect, useRef } from 'react';
+
+interface PixelCanvasProps {
+  pixels: Uint8ClampedArray; // RGBA, size × size
+  size: number;
+  border?: string;
+}
+
+const PixelCanvas: React.FC<PixelCanvasProps> = ({ pixels, size, border = '#475569' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const image = ctx.createImageData(size, size);
+    image.data.set(pixels);
+    ctx.putImageData(image, 0, 0);
+  }, [pixels, size]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={size}
+      height={size}
+      className="w-full aspect-square rounded border-2 bg-black"
+      style={{ imageRendering: 'pixelated', borderColor: border }}
+    />
+  );
+};
+
+export default PixelCanvas;
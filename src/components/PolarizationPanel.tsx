@@ -0,0 +1,118 @@
+import React from 'react';
+import { PolarizationSettings } from '../types';
+import { Glasses, RotateCcw } from 'lucide-react';
+import { DEFAULT_POLARIZATION, crossingAngle, specularTransmission } from '../optics/polarization';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface PolarizationPanelProps {
+  polarization: PolarizationSettings;
+  onChange: (polarization: PolarizationSettings) => void;
+}
+
+// Small dial showing the transmission axis of a filter
+const AxisDial: React.FC<{ angle: number; active: boolean }> = ({ angle, active }) => {
+  const rad = (angle * Math.PI) / 180;
+  const dx = 7 * Math.cos(rad);
+  const dy = -7 * Math.sin(rad);
+  return (
+    <svg viewBox="-10 -10 20 20" className="w-5 h-5 flex-shrink-0">
+      <circle r="9" fill="none" stroke={active ? '#22d3ee' : '#475569'} strokeWidth="1.5" />
+      <line x1={-dx} y1={-dy} x2={dx} y2={dy} stroke={active ? '#22d3ee' : '#475569'} strokeWidth="2" />
+    </svg>
+  );
+};
+
+const PolarizationPanel: React.FC<PolarizationPanelProps> = ({ polarization, onChange }) => {
+  const { t } = useTranslation();
+  const update = (changes: Partial<PolarizationSettings>) => onChange({ ...polarization, ...changes });
+  const glare = specularTransmission(polarization);
+
+  const filters = [
+    {
+      key: 'polarizer' as const,
+      angleKey: 'polarizerAngle' as const,
+      label: t('polarization.polarizer'),
+    },
+    {
+      key: 'analyzer' as const,
+      angleKey: 'analyzerAngle' as const,
+      label: t('polarization.analyzer'),
+    },
+  ];
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700/50 space-y-3">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-2 text-sm font-semibold text-slate-300">
+          <Glasses className="w-4 h-4 text-optics-accent" />
+          <span>{t('polarization.title')}</span>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => update({
+              polarizer: true,
+              analyzer: true,
+              analyzerAngle: (polarization.polarizerAngle + 90) % 180,
+            })}
+            className="text-xs text-slate-400 hover:text-white transition-colors"
+          >
+            {t('polarization.cross')}
+          </button>
+          <button
+            onClick={() => onChange(DEFAULT_POLARIZATION)}
+            className="flex items-center space-x-1 text-xs text-slate-400 hover:text-white transition-colors"
+          >
+            <RotateCcw className="w-3 h-3" />
+            <span>{t('common.reset')}</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-xs text-slate-400">
+        {filters.map(filter => (
+          <div key={filter.key} className="space-y-1">
+            <div className="flex items-center space-x-2">
+              <AxisDial angle={polarization[filter.angleKey]} active={polarization[filter.key]} />
+              <button
+                onClick={() => update({ [filter.key]: !polarization[filter.key] })}
+                className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                  polarization[filter.key]
+                    ? 'bg-optics-accent text-slate-900 font-semibold'
+                    : 'bg-slate-900 text-slate-400 border border-slate-700 hover:text-white'
+                }`}
+              >
+                {filter.label}
+              </button>
+            </div>
+            <label className="block space-y-1">
+              <span>{t('polarization.axis')}: {polarization[filter.angleKey]}°</span>
+              <input
+                type="range"
+                min={0}
+                max={175}
+                step={5}
+                value={polarization[filter.angleKey]}
+                disabled={!polarization[filter.key]}
+                onChange={(e) => update({ [filter.angleKey]: Number(e.target.value) })}
+                className="w-full accent-cyan-500 disabled:opacity-40"
+              />
+            </label>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-[10px] font-mono text-slate-500">
+        {polarization.polarizer && polarization.analyzer && (
+          <span>{t('polarization.crossing')} {crossingAngle(polarization)}°</span>
+        )}
+        <span>{t('polarization.glarePassed')} {(glare * 100).toFixed(glare < 0.1 ? 1 : 0)}%</span>
+        <span>{t('polarization.diffusePassed')} {polarization.analyzer ? 50 : 100}%</span>
+      </div>
+      <p className="text-[10px] text-slate-500">
+        {t('polarization.note')}
+      </p>
+    </div>
+  );
+};
+
+export default PolarizationPanel;
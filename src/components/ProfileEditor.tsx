@@ -0,0 +1,153 @@
+import React, { useRef, useState } from 'react';
+import { Point, SurfaceFeatureKind } from '../types';
+import { Plus, RotateCcw, PenLine } from 'lucide-react';
+import { profileToPath } from '../optics/rayTracer';
+import { DEFAULT_PROFILE, SCENE } from '../optics/scene';
+import { MAX_RAISE, MAX_SINK, addVertex, insertFeature, moveVertex, removeVertex } from '../optics/surfaceFeatures';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface ProfileEditorProps {
+  profile: Point[];
+  onChange: (profile: Point[]) => void;
+}
+
+const FEATURE_KINDS: SurfaceFeatureKind[] = ['v-scratch', 'rounded-pit', 'embossed', 'burr', 'step'];
+
+// Only the band around the surface is shown, zoomed in
+const VIEW_TOP = SCENE.surfaceY - MAX_RAISE - 10;
+const VIEW_HEIGHT = MAX_RAISE + MAX_SINK + 20;
+
+const ProfileEditor: React.FC<ProfileEditorProps> = ({ profile, onChange }) => {
+  const { t } = useTranslation();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const [kind, setKind] = useState<SurfaceFeatureKind>('v-scratch');
+  const [featureX, setFeatureX] = useState(SCENE.centerX);
+  const [featureWidth, setFeatureWidth] = useState(40);
+  const [featureDepth, setFeatureDepth] = useState(15);
+
+  const toScenePoint = (e: React.PointerEvent | React.MouseEvent): Point | null => {
+    const ctm = svgRef.current?.getScreenCTM();
+    if (!ctm) return null;
+    const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+    return { x: Math.round(p.x), y: Math.round(p.y) };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    const point = toScenePoint(e);
+    if (point) onChange(moveVertex(profile, dragIndex, point, SCENE.surfaceY));
+  };
+
+  const handleSurfaceClick = (e: React.MouseEvent<SVGPathElement>) => {
+    const point = toScenePoint(e);
+    if (point) onChange(addVertex(profile, point));
+  };
+
+  const handleInsert = () => {
+    onChange(insertFeature(profile, { kind, centerX: featureX, width: featureWidth, depth: featureDepth }));
+  };
+
+  const surfacePath = profileToPath(profile);
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700/50 space-y-3">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-2 text-sm font-semibold text-slate-300">
+          <PenLine className="w-4 h-4 text-optics-accent" />
+          <span>{t('profile.title')}</span>
+        </div>
+        <button
+          onClick={() => onChange(DEFAULT_PROFILE)}
+          className="flex items-center space-x-1 text-xs text-slate-400 hover:text-white transition-colors"
+        >
+          <RotateCcw className="w-3 h-3" />
+          <span>{t('common.reset')}</span>
+        </button>
+      </div>
+
+      {/* Zoomed cross-section with draggable vertices */}
+      <svg
+        ref={svgRef}
+        viewBox={`0 ${VIEW_TOP} ${SCENE.width} ${VIEW_HEIGHT}`}
+        className="w-full h-32 bg-slate-900/60 rounded-lg border border-slate-800 touch-none select-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragIndex(null)}
+        onPointerLeave={() => setDragIndex(null)}
+      >
+        <line x1={0} y1={SCENE.surfaceY} x2={SCENE.width} y2={SCENE.surfaceY} stroke="#334155" strokeDasharray="3,3" />
+        <path
+          d={`${surfacePath} L ${SCENE.width - 20} ${VIEW_TOP + VIEW_HEIGHT} L 20 ${VIEW_TOP + VIEW_HEIGHT} Z`}
+          fill="#1e293b"
+          opacity="0.6"
+        />
+        {/* Wide invisible stroke makes the line easy to click */}
+        <path d={surfacePath} stroke="transparent" strokeWidth="10" fill="none" className="cursor-copy" onClick={handleSurfaceClick} />
+        <path d={surfacePath} stroke="#64748b" strokeWidth="2" fill="none" pointerEvents="none" />
+        {profile.map((p, i) => (
+          <circle
+            key={i}
+            cx={p.x}
+            cy={p.y}
+            r={dragIndex === i ? 5 : 3.5}
+            fill={dragIndex === i ? '#22d3ee' : '#e2e8f0'}
+            stroke="#0f172a"
+            strokeWidth="1"
+            className="cursor-grab"
+            onPointerDown={(e) => {
+              e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+              setDragIndex(i);
+            }}
+            onDoubleClick={() => onChange(removeVertex(profile, i))}
+          />
+        ))}
+      </svg>
+      <p className="text-[10px] text-slate-500">
+        {t('profile.help')}
+      </p>
+
+      {/* Preset features */}
+      <div className="flex flex-wrap gap-2">
+        {FEATURE_KINDS.map(feature => (
+          <button
+            key={feature}
+            onClick={() => setKind(feature)}
+            className={`px-3 py-1 rounded-full text-xs transition-colors ${
+              kind === feature
+                ? 'bg-optics-accent text-slate-900 font-semibold'
+                : 'bg-slate-900 text-slate-400 border border-slate-700 hover:text-white'
+            }`}
+          >
+            {t(`feature.${feature}`)}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs text-slate-400">
+        <label className="space-y-1">
+          <span>{t('profile.position')}: {featureX}</span>
+          <input type="range" min={40} max={SCENE.width - 40} value={featureX} onChange={(e) => setFeatureX(Number(e.target.value))} className="w-full accent-cyan-500" />
+        </label>
+        <label className="space-y-1">
+          <span>{t('profile.width')}: {featureWidth}</span>
+          <input type="range" min={kind === 'step' ? 0 : 6} max={120} value={featureWidth} onChange={(e) => setFeatureWidth(Number(e.target.value))} className="w-full accent-cyan-500" />
+        </label>
+        <label className="space-y-1">
+          <span>{kind === 'embossed' || kind === 'burr' ? t('profile.height') : t('profile.depth')}: {featureDepth}</span>
+          <input type="range" min={2} max={kind === 'embossed' || kind === 'burr' ? MAX_RAISE : MAX_SINK} value={featureDepth} onChange={(e) => setFeatureDepth(Number(e.target.value))} className="w-full accent-cyan-500" />
+        </label>
+      </div>
+
+      <button
+        onClick={handleInsert}
+        className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-cyan-700 hover:bg-cyan-600 text-white text-sm transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        <span>{t('profile.insert')}</span>
+      </button>
+    </div>
+  );
+};
+
+export default ProfileEditor;
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { CameraLevels, LightingMode, QuizGoal, QuizProgress, SceneLight } from '../types';
+import { CheckCircle2, ChevronLeft, ChevronRight, GraduationCap, RotateCcw, X, XCircle } from 'lucide-react';
+import { QUIZ_QUESTIONS, QUIZ_TOPICS } from '../data/quizQuestions';
+import { presetLights } from '../optics/lightingModes';
+import { meetsGoal, topicScores } from '../optics/quiz';
+import { clearQuizProgress, loadQuizProgress, saveQuizProgress } from '../services/quizProgress';
+import { Translate } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface QuizPanelProps {
+  questionIndex: number;
+  onQuestionChange: (index: number) => void;
+  // Camera levels the simulator shows for the current part under these lights
+  measure: (lights: SceneLight[]) => CameraLevels;
+  sceneLights: SceneLight[];
+  onPickMode: (mode: LightingMode) => void;
+  onClose: () => void;
+}
+
+interface Attempt {
+  correct: boolean;
+  levels: CameraLevels;
+  picked?: LightingMode;
+}
+
+const describeGoal = (goal: QuizGoal, t: Translate) => {
+  const parts = [
+    goal.flat && t(`quiz.goal.flat.${goal.flat}`),
+    goal.defect && t(`quiz.goal.defect.${goal.defect}`),
+    goal.backdrop && t(`quiz.goal.backdrop.${goal.backdrop}`),
+    goal.contrast !== undefined && t('quiz.goal.contrast', { contrast: goal.contrast }),
+  ];
+  return parts.filter(Boolean).join(t('common.listSeparator'));
+};
+
+const QuizPanel: React.FC<QuizPanelProps> = ({
+  questionIndex,
+  onQuestionChange,
+  measure,
+  sceneLights,
+  onPickMode,
+  onClose,
+}) => {
+  const { t, localize } = useTranslation();
+  const [progress, setProgress] = useState<QuizProgress>(loadQuizProgress);
+  const [attempt, setAttempt] = useState<Attempt | null>(null);
+
+  const question = QUIZ_QUESTIONS[questionIndex];
+  const scores = topicScores(QUIZ_QUESTIONS, progress);
+  const solved = QUIZ_QUESTIONS.filter(q => progress[q.id]?.solved);
+  const firstTry = solved.filter(q => progress[q.id].attempts === 1).length;
+
+  const goTo = (index: number) => {
+    setAttempt(null);
+    onQuestionChange(index);
+  };
+
+  // Attempts stop counting once a question is solved, so revisiting it
+  // does not change the first-try score
+  const grade = (levels: CameraLevels, picked?: LightingMode) => {
+    const correct = meetsGoal(question.goal, levels);
+    setAttempt({ correct, levels, picked });
+    const record = progress[question.id] ?? { attempts: 0, solved: false };
+    if (record.solved) return;
+    const next = { ...progress, [question.id]: { attempts: record.attempts + 1, solved: correct } };
+    setProgress(next);
+    saveQuizProgress(next);
+  };
+
+  const pickMode = (mode: LightingMode) => {
+    onPickMode(mode);
+    grade(measure(presetLights(mode)), mode);
+  };
+
+  const resetProgress = () => {
+    clearQuizProgress();
+    setProgress({});
+    setAttempt(null);
+  };
+
+  const readout = (levels: CameraLevels) =>
+    [
+      `${t('quiz.region.flat')} ${levels.flat.toFixed(2)}`,
+      `${t('quiz.region.defect')} ${levels.defect.toFixed(2)}`,
+      levels.backdrop !== null && `${t('quiz.region.backdrop')} ${levels.backdrop.toFixed(2)}`,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-xl border border-optics-accent/40 space-y-4">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-2 text-sm font-semibold text-slate-300">
+          <GraduationCap className="w-4 h-4 text-optics-accent" />
+          <span>{t('quiz.title')}</span>
+          <span className="text-xs font-normal text-slate-500">
+            {questionIndex + 1} / {QUIZ_QUESTIONS.length} · {localize(QUIZ_TOPICS[question.topic])}
+          </span>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors" title={t('quiz.leave')}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Per-topic scores, kept in the browser between visits */}
+      <div className="grid grid-cols-3 gap-3">
+        {scores.map(score => (
+          <div key={score.topic} className="space-y-1">
+            <div className="flex justify-between text-[10px] text-slate-400">
+              <span>{localize(QUIZ_TOPICS[score.topic])}</span>
+              <span className="font-mono">{score.solved}/{score.total}</span>
+            </div>
+            <div className="h-1.5 bg-slate-900 rounded-full overflow-hidden">
+              <div className="h-full bg-green-500 transition-all" style={{ width: `${(score.solved / score.total) * 100}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between items-center text-[10px] font-mono text-slate-500">
+        <span>
+          {t('quiz.summary', { solved: solved.length, total: QUIZ_QUESTIONS.length, firstTry })}
+        </span>
+        <button onClick={resetProgress} className="flex items-center space-x-1 hover:text-white transition-colors">
+          <RotateCcw className="w-3 h-3" />
+          <span>{t('quiz.resetProgress')}</span>
+        </button>
+      </div>
+
+      <p className="text-sm text-slate-200">{localize(question.prompt)}</p>
+
+      {question.kind === 'mode' ? (
+        <div className="grid grid-cols-2 gap-2">
+          {question.options?.map(option => (
+            <button
+              key={option}
+              onClick={() => pickMode(option)}
+              className={`px-3 py-2 rounded-lg text-xs transition-colors ${
+                attempt?.picked === option
+                  ? attempt.correct
+                    ? 'bg-green-600 text-white font-semibold'
+                    : 'bg-red-600/80 text-white font-semibold'
+                  : 'bg-slate-900 text-slate-300 border border-slate-700 hover:border-slate-500'
+              }`}
+            >
+              {t(`mode.${option}`)}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-slate-400">
+            {t('quiz.dragHint')}
+          </p>
+          <button
+            onClick={() => grade(measure(sceneLights))}
+            className="px-4 py-2 rounded-lg bg-optics-accent text-slate-900 text-xs font-semibold hover:bg-cyan-400 transition-colors"
+          >
+            {t('quiz.check')}
+          </button>
+        </div>
+      )}
+
+      {attempt && (
+        <div className={`p-3 rounded-lg border text-xs space-y-2 ${attempt.correct ? 'bg-green-900/20 border-green-800/50' : 'bg-red-900/20 border-red-800/50'}`}>
+          <div className={`flex items-center font-semibold ${attempt.correct ? 'text-green-400' : 'text-red-400'}`}>
+            {attempt.correct ? <CheckCircle2 className="w-4 h-4 mr-2" /> : <XCircle className="w-4 h-4 mr-2" />}
+            {attempt.correct ? t('quiz.correct') : t('quiz.tryAgain')}
+          </div>
+          <div className="font-mono text-[10px] text-slate-400">
+            {t('quiz.cameraSees')}: {readout(attempt.levels)}
+            <br />
+            {t('quiz.needed')}: {describeGoal(question.goal, t)}
+          </div>
+          {attempt.correct && (
+            <p className="text-slate-300 leading-relaxed">{localize(question.explanation)}</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-between items-center">
+        <button
+          onClick={() => goTo(questionIndex - 1)}
+          disabled={questionIndex === 0}
+          className="flex items-center text-xs text-slate-400 hover:text-white transition-colors disabled:opacity-30"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          {t('quiz.previous')}
+        </button>
+        {/* Solved in green, attempted in amber */}
+        <div className="flex space-x-1.5">
+          {QUIZ_QUESTIONS.map((q, i) => (
+            <button
+              key={q.id}
+              onClick={() => goTo(i)}
+              className={`w-2.5 h-2.5 rounded-full transition-all ${
+                progress[q.id]?.solved ? 'bg-green-500' : progress[q.id] ? 'bg-amber-500' : 'bg-slate-600'
+              } ${i === questionIndex ? 'ring-2 ring-optics-accent ring-offset-1 ring-offset-slate-800' : ''}`}
+              title={`${i + 1}`}
+            />
+          ))}
+        </div>
+        <button
+          onClick={() => goTo(questionIndex + 1)}
+          disabled={questionIndex === QUIZ_QUESTIONS.length - 1}
+          className="flex items-center text-xs text-slate-400 hover:text-white transition-colors disabled:opacity-30"
+        >
+          {t('quiz.next')}
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QuizPanel;
@@ -1,187 +1,509 @@
-import React from 'react';
-import { LightingMode, Language } from '../types';
-import { Camera, Lightbulb, ArrowDown } from 'lucide-react';
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  CameraAperture,
+  CameraLevels,
+  LightingMode,
+  LessonHighlight,
+  Material,
+  Point,
+  PolarizationSettings,
+  RayHit,
+  SceneLight,
+} from '../types';
+import { Camera, Lightbulb } from 'lucide-react';
+import { profileToPath, rotate, traceLight } from '../optics/rayTracer';
+import { scatterLobe } from '../optics/materials';
+import { SCENE } from '../optics/scene';
+import { UNITS_PER_MM, chiefRay } from '../optics/lens';
+import { specularTransmission } from '../optics/polarization';
+import { useTranslation } from '../i18n/useTranslation';
+import {
+  COAXIAL_SPLITTER_Y,
+  DOME_RADIUS,
+  LIGHT_COLORS,
+  LightingSetup,
+  isInDiagramPlane,
+  sceneLightColor,
+} from '../optics/lightingModes';
 
 interface RayDiagramProps {
   mode: LightingMode;
-  language: Language;
+  sceneLights: SceneLight[];
+  setup: LightingSetup;
+  levels: CameraLevels;
+  material: Material;
+  camera: CameraAperture;
+  polarization: PolarizationSettings;
+  onLightAngleChange?: (angle: number) => void; // Makes the first spot lamp draggable
+  highlight?: LessonHighlight; // Part of the diagram a lesson is pointing at
 }
 
-const RayDiagram: React.FC<RayDiagramProps> = ({ mode, language }) => {
-  const isBrightField = mode === LightingMode.BRIGHT_FIELD;
-  const isZh = language === 'zh';
+// Radius of a scatter lobe whose strength is 1
+const LOBE_SIZE = 24;
+
+const HIGHLIGHT_COLOR = '#fbbf24';
+
+// Polar plot of how a hit point scatters light, drawn around the surface normal
+const lobePath = (hit: RayHit, material: Material) => {
+  const points: Point[] = [];
+  for (let a = -88; a <= 88; a += 4) {
+    const out = rotate(hit.normal, a);
+    const r = LOBE_SIZE * scatterLobe(hit.incoming, hit.normal, out, material);
+    points.push({ x: hit.point.x + out.x * r, y: hit.point.y + out.y * r });
+  }
+  return `${profileToPath([hit.point, ...points])} Z`;
+};
+
+const markerId = (sourceId: number) => `arrow-${sourceId % LIGHT_COLORS.length}`;
+
+const RayDiagram: React.FC<RayDiagramProps> = ({
+  mode,
+  sceneLights,
+  setup,
+  levels,
+  material,
+  camera,
+  polarization,
+  onLightAngleChange,
+  highlight,
+}) => {
+  const { t } = useTranslation();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState(false);
 
   // SVG Configuration
-  const width = 400;
-  const height = 300;
-  const centerX = width / 2;
-  const surfaceY = 250;
-  const cameraY = 60;
-  
-  // Surface Geometry (Flat with a V-dent in middle)
-  const dentWidth = 40;
-  const dentDepth = 15;
-  const dentLeft = centerX - dentWidth / 2;
-  const dentRight = centerX + dentWidth / 2;
-  const dentBottom = surfaceY + dentDepth;
+  const { width, height, centerX, surfaceY, cameraY } = SCENE;
+
+  const surfacePath = profileToPath(setup.outline);
+  const enabledLights = sceneLights.filter(light => light.enabled);
+
+  // Only beams in the section plane can be drawn; each keeps its lamp's color
+  const planeBeams = setup.lights.filter(isInDiagramPlane);
+  const outOfPlane = enabledLights.filter(light => !planeBeams.some(beam => beam.sourceId === light.id)).length;
+  const rays = useMemo(
+    () =>
+      setup.lights.filter(isInDiagramPlane).flatMap(light =>
+        traceLight(light, setup.segments, camera, { width, height }).map(ray => ({ ...ray, sourceId: light.sourceId }))
+      ),
+    [setup, camera, width, height]
+  );
+
+  // Label the first feature found along the profile
+  const feature = setup.segments.find(segment => segment.region === 'defect' && !segment.absorbs);
+  const featureLabelX = feature ? (feature.start.x + feature.end.x) / 2 : centerX;
+
+  // Traced rays are mirror paths, so they keep the polarizer's direction all
+  // the way to the analyzer, which passes them by Malus's law
+  const analyzerPass = specularTransmission(polarization);
+  const blockedByAnalyzer = polarization.analyzer && analyzerPass < 0.1;
+  const capturedCount = blockedByAnalyzer ? 0 : rays.filter(ray => ray.captured).length;
+
+  // Acceptance cones at the center and toward the edges of the visible field
+  const fieldLeft = Math.max(0, centerX - camera.halfWidth);
+  const fieldRight = Math.min(width, centerX + camera.halfWidth);
+  const coneSpacing = Math.min(camera.halfWidth, 140);
+  const conePath = (x: number) => {
+    const chief = chiefRay(camera, x);
+    const reach = (p: Point) => {
+      const t = (surfaceY - cameraY) / -p.y;
+      return { x: x + p.x * t, y: cameraY };
+    };
+    const origin = { x, y: surfaceY };
+    return `${profileToPath([origin, reach(rotate(chief, -camera.acceptanceAngle)), reach(rotate(chief, camera.acceptanceAngle))])} Z`;
+  };
+
+  // One lobe every few rays keeps the picture readable; features always get one
+  const lobeHits = rays
+    .filter(ray => ray.hits.length > 0)
+    .filter((ray, i) => i % 3 === 1 || ray.hits[0].region === 'defect')
+    .map(ray => ray.hits[0]);
+  const flatIn = levels.flat >= 0.5;
+  const defectIn = levels.defect >= 0.5;
+
+  const resultText = () => {
+    if (mode === LightingMode.PHOTOMETRIC_STEREO) {
+      return t('diagram.result.stereo');
+    }
+    if (setup.backlit) {
+      return t('diagram.result.backlit');
+    }
+    if (flatIn && !defectIn) {
+      return t('diagram.result.brightField');
+    }
+    if (!flatIn && defectIn) {
+      return t('diagram.result.darkField');
+    }
+    if (flatIn && defectIn) {
+      return t('diagram.result.both');
+    }
+    return t('diagram.result.none');
+  };
+
+  // Rays a lesson is not pointing at fade into the background
+  const rayHighlighted = (captured: boolean) =>
+    highlight === 'captured' ? captured : highlight === 'missed' ? !captured : true;
+
+  const renderHighlight = () => {
+    switch (highlight) {
+      case 'flat':
+      case 'defect':
+        return setup.segments
+          .filter(segment => segment.region === highlight && !segment.absorbs)
+          .map((segment, i) => (
+            <line
+              key={i}
+              x1={segment.start.x}
+              y1={segment.start.y}
+              x2={segment.end.x}
+              y2={segment.end.y}
+              stroke={HIGHLIGHT_COLOR}
+              strokeWidth="10"
+              strokeLinecap="round"
+              opacity="0.45"
+            />
+          ));
+      case 'lens':
+        return (
+          <ellipse cx={camera.position.x} cy={cameraY} rx={50} ry={14} fill="none" stroke={HIGHLIGHT_COLOR} strokeWidth="3" />
+        );
+      case 'light':
+        return enabledLights.map(light => {
+          const beam = planeBeams.find(b => b.sourceId === light.id);
+          return beam && (
+            <circle key={light.id} cx={beam.position.x} cy={beam.position.y} r={26} fill="none" stroke={HIGHLIGHT_COLOR} strokeWidth="3" />
+          );
+        });
+      case 'captured':
+      case 'missed':
+        return rays
+          .filter(ray => rayHighlighted(ray.captured))
+          .map((ray, i) => (
+            <path key={i} d={profileToPath(ray.path)} stroke={HIGHLIGHT_COLOR} strokeWidth="6" fill="none" opacity="0.3" />
+          ));
+      default:
+        return null;
+    }
+  };
+
+  // The first lamp follows the pointer along its arc when it is a spot
+  const dragLight = onLightAngleChange && sceneLights[0]?.fixture === 'spot' ? sceneLights[0] : null;
+  const dragTo = (e: React.PointerEvent) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!dragging || !matrix || !onLightAngleChange) return;
+    const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+    const angle = (Math.atan2(Math.abs(p.x - centerX), Math.max(0, surfaceY - p.y)) * 180) / Math.PI;
+    onLightAngleChange(Math.round(Math.min(90, angle)));
+  };
+
+  // Each fixture is drawn where the tracer emits its beams, in its own color
+  const renderFixture = (light: SceneLight) => {
+    const color = sceneLightColor(light.id);
+    const beams = planeBeams.filter(beam => beam.sourceId === light.id);
+    if (beams.length === 0) return null;
+
+    const bulb = (x: number, y: number, key?: string) => (
+      <Lightbulb
+        key={key}
+        x={x - 14}
+        y={y - 14}
+        width={28}
+        height={28}
+        color={color}
+        fill={color}
+        className="animate-pulse"
+      />
+    );
+    const label = (x: number, y: number, text: string, anchor: 'start' | 'middle' | 'end' = 'middle') => (
+      <text x={x} y={y} fill={color} fontSize="10" textAnchor={anchor}>{text}</text>
+    );
+
+    switch (light.fixture) {
+      case 'coaxial': {
+        const lampX = centerX + 120;
+        return (
+          <g key={light.id}>
+            {/* 45° beam splitter folds the side lamp onto the axis */}
+            <line x1={centerX - 50} y1={COAXIAL_SPLITTER_Y + 50} x2={centerX + 50} y2={COAXIAL_SPLITTER_Y - 50} stroke="#94a3b8" strokeWidth="3" opacity="0.7" />
+            <line x1={lampX - 16} y1={COAXIAL_SPLITTER_Y} x2={centerX + 8} y2={COAXIAL_SPLITTER_Y} stroke={color} strokeWidth="2" markerEnd={`url(#${markerId(light.id)})`} />
+            {bulb(lampX, COAXIAL_SPLITTER_Y)}
+            {label(lampX, COAXIAL_SPLITTER_Y + 26, t('diagram.coaxialLamp'))}
+          </g>
+        );
+      }
+      case 'dome': {
+        // Open at the top so the camera can look through
+        const arc = (from: number, to: number) => {
+          const p = (deg: number) => ({
+            x: centerX + DOME_RADIUS * Math.sin((deg * Math.PI) / 180),
+            y: surfaceY - DOME_RADIUS * Math.cos((deg * Math.PI) / 180),
+          });
+          const a = p(from);
+          const b = p(to);
+          return `M ${a.x} ${a.y} A ${DOME_RADIUS} ${DOME_RADIUS} 0 0 1 ${b.x} ${b.y}`;
+        };
+        return (
+          <g key={light.id}>
+            <path d={arc(-85, -6)} stroke={color} strokeWidth="3" fill="none" opacity="0.6" />
+            <path d={arc(6, 85)} stroke={color} strokeWidth="3" fill="none" opacity="0.6" />
+            {label(centerX - 120, surfaceY - 150, t('diagram.dome'), 'end')}
+          </g>
+        );
+      }
+      case 'backlight': {
+        const panelY = beams[0].position.y;
+        return (
+          <g key={light.id}>
+            <rect x={40} y={panelY - 2} width={width - 80} height={8} fill={color} opacity="0.8" rx="2" />
+            {label(width - 40, panelY - 8, t('diagram.backlightPanel'), 'end')}
+          </g>
+        );
+      }
+      case 'ring':
+        return (
+          <g key={light.id}>
+            {beams.map((beam, i) => bulb(beam.position.x, beam.position.y, `ring-${i}`))}
+            {label(centerX, beams[0].position.y + 30, t('diagram.ringSection'))}
+          </g>
+        );
+      default: {
+        const { position } = beams[0];
+        const labelBeside = light.angle < 30;
+        return (
+          <g key={light.id}>
+            {light === dragLight && (
+              <circle
+                cx={position.x}
+                cy={position.y}
+                r={20}
+                fill="transparent"
+                stroke={color}
+                strokeDasharray="3,3"
+                opacity={dragging ? 0.9 : 0.5}
+                className={`pointer-events-auto ${dragging ? 'cursor-grabbing' : 'cursor-grab'}`}
+                onPointerDown={(e) => {
+                  e.currentTarget.setPointerCapture(e.pointerId);
+                  setDragging(true);
+                }}
+                onPointerMove={dragTo}
+                onPointerUp={() => setDragging(false)}
+                onPointerCancel={() => setDragging(false)}
+              >
+                <title>{t('diagram.dragHint')}</title>
+              </circle>
+            )}
+            {bulb(position.x, position.y)}
+            {label(
+              position.x + (labelBeside ? 20 : 0),
+              position.y + (labelBeside ? 4 : 26),
+              `${light.angle < 45
+                ? t('diagram.highAngle')
+                : t('diagram.lowAngle')} ${Math.round(light.angle)}°`,
+              labelBeside ? 'start' : 'middle'
+            )}
+          </g>
+        );
+      }
+    }
+  };
 
   return (
     <div className="w-full bg-slate-800 rounded-xl border border-slate-700 flex flex-col p-4 shadow-inner">
-      
+
       {/* Header / Legend */}
       <div className="flex justify-between items-start mb-2">
         <div className="text-xs text-slate-400 font-mono">
-          {isZh ? '物理光路示意图' : 'PHYSICAL RAY DIAGRAM'}
+          {t('diagram.title')}
+          <span className={`ml-2 uppercase ${mode === LightingMode.DARK_FIELD ? 'text-blue-400' : 'text-cyan-400'}`}>
+            · {t(`mode.${mode}`)}
+          </span>
+          {enabledLights.length > 1 && (
+            <span className="ml-1 text-slate-500">
+              {t('diagram.extraLights', { count: enabledLights.length - 1 })}
+            </span>
+          )}
         </div>
-        <div className="flex space-x-3 text-[10px] md:text-xs">
+        <div className="flex flex-wrap justify-end gap-x-3 gap-y-1 text-[10px] md:text-xs">
            <div className="flex items-center space-x-1">
-              <div className="w-3 h-0.5 bg-yellow-400"></div>
-              <span className="text-yellow-100">{isZh ? '光线路径' : 'Light Ray'}</span>
+              <div className="w-3 h-0.5 bg-slate-200"></div>
+              <span className="text-slate-200">{t('diagram.entersLens', { captured: capturedCount, total: rays.length })}</span>
+           </div>
+           <div className="flex items-center space-x-1">
+              <div className="w-3 h-0.5 border-t border-dashed border-slate-200/60"></div>
+              <span className="text-slate-400">{t('diagram.missesLens')}</span>
+           </div>
+           {(polarization.polarizer || polarization.analyzer) && (
+             <div className="flex items-center space-x-1">
+                <div className={`w-3 ${polarization.polarizer ? 'border-t-2 border-dotted border-slate-100' : 'h-0.5 bg-slate-400'}`}></div>
+                <span className="text-slate-300">
+                  {polarization.polarizer
+                    ? t('diagram.polarized', { angle: polarization.polarizerAngle })
+                    : t('diagram.unpolarized')}
+                </span>
+             </div>
+           )}
+           {polarization.analyzer && (
+             <div className="flex items-center space-x-1">
+                <div className="w-3 h-0.5 bg-red-400" style={{ transform: `rotate(${-polarization.analyzerAngle}deg)` }}></div>
+                <span className="text-slate-300">
+                  {t('diagram.analyzerPasses', { percent: (analyzerPass * 100).toFixed(analyzerPass < 0.1 ? 1 : 0) })}
+                </span>
+             </div>
+           )}
+           <div className="flex items-center space-x-1">
+              <div className="w-2.5 h-2.5 bg-cyan-400/20 border border-cyan-400/60"></div>
+              <span className="text-cyan-200">{t('diagram.acceptanceCone')}</span>
+           </div>
+           <div className="flex items-center space-x-1">
+              <div className="w-2.5 h-2.5 rounded-full bg-pink-400/20 border border-pink-400/70"></div>
+              <span className="text-pink-200">{t('diagram.scatterLobe')}</span>
            </div>
            <div className="flex items-center space-x-1">
               <div className="w-3 h-0.5 bg-slate-500 border border-slate-400"></div>
-              <span className="text-slate-300">{isZh ? '被测物体' : 'Object'}</span>
+              <span className="text-slate-300">{t('diagram.object')}</span>
            </div>
         </div>
       </div>
 
       {/* Main Diagram Area */}
       <div className="relative w-full h-[320px] bg-slate-900/50 rounded-lg border border-slate-800">
-        
-        {/* HTML Overlay Elements (Icons) */}
-        
-        {/* 1. Camera (Always at top) */}
+
+        {/* Camera (Always at top) */}
         <div className="absolute top-2 left-1/2 -translate-x-1/2 flex flex-col items-center z-20">
           <Camera className="w-8 h-8 text-cyan-400" />
           <div className="text-[10px] text-cyan-200 bg-slate-900/80 px-2 rounded mt-1">
-             {isZh ? '相机 (接收端)' : 'Camera (Sensor)'}
-          </div>
-        </div>
-
-        {/* 2. Light Source (Position changes based on mode) */}
-        <div 
-          className={`absolute z-20 transition-all duration-700 ease-in-out flex flex-col items-center
-            ${isBrightField 
-              ? 'top-[80px] left-1/2 -translate-x-1/2' 
-              : 'bottom-[80px] left-[10px]'}
-          `}
-        >
-          <Lightbulb className={`w-8 h-8 ${isBrightField ? 'text-yellow-400 fill-yellow-400' : 'text-yellow-400 fill-yellow-400'} animate-pulse`} />
-          <div className="text-[10px] text-yellow-200 bg-slate-900/80 px-2 rounded mt-1 whitespace-nowrap">
-            {isBrightField 
-              ? (isZh ? '同轴/高角度光源' : 'High Angle Source') 
-              : (isZh ? '低角度光源' : 'Low Angle Source')}
+             {t('diagram.camera')}
           </div>
         </div>
 
         {/* SVG Ray Tracing Layer */}
-        <svg 
-          viewBox={`0 0 ${width} ${height}`} 
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${width} ${height}`}
           className="absolute inset-0 w-full h-full pointer-events-none z-10 overflow-visible"
         >
           <defs>
-            <marker id="arrow" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
-              <path d="M0,0 L6,3 L0,6" fill="#facc15" />
-            </marker>
-             <marker id="arrow-faint" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
-              <path d="M0,0 L6,3 L0,6" fill="#facc15" opacity="0.4" />
-            </marker>
+            {LIGHT_COLORS.map((color, i) => (
+              <React.Fragment key={color}>
+                <marker id={`arrow-${i}`} markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                  <path d="M0,0 L6,3 L0,6" fill={color} />
+                </marker>
+                <marker id={`arrow-${i}-faint`} markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                  <path d="M0,0 L6,3 L0,6" fill={color} opacity="0.4" />
+                </marker>
+              </React.Fragment>
+            ))}
           </defs>
 
+          {/* NA cones: each field point is imaged through the light inside its cone */}
+          {[centerX - coneSpacing, centerX, centerX + coneSpacing].map(x => (
+            <path key={`cone-${x}`} d={conePath(x)} fill="#22d3ee" fillOpacity="0.08" stroke="#22d3ee" strokeOpacity="0.35" strokeWidth="0.75" />
+          ))}
+
+          {/* Lens (working distance not to scale) */}
+          <ellipse cx={camera.position.x} cy={cameraY} rx={36} ry={5} fill="#22d3ee" fillOpacity="0.25" stroke="#22d3ee" strokeWidth="1.5" />
+          <text x={camera.position.x + 44} y={cameraY + 4} fill="#67e8f9" fontSize="9">
+            {camera.telecentric ? t('diagram.telecentric') : t('diagram.standard')} · WD {Math.round(camera.workingDistance / UNITS_PER_MM)} mm
+            {polarization.analyzer && ` · ${t('diagram.analyzer')} ${polarization.analyzerAngle}°`}
+          </text>
+
+          {/* Field of view on the object */}
+          <path
+            d={`M ${fieldLeft} ${surfaceY + 44} L ${fieldLeft} ${surfaceY + 48} L ${fieldRight} ${surfaceY + 48} L ${fieldRight} ${surfaceY + 44}`}
+            stroke="#22d3ee"
+            strokeOpacity="0.6"
+            fill="none"
+          />
+          <text x={centerX + 60} y={surfaceY + 45} fill="#67e8f9" fontSize="9" textAnchor="middle">
+            {t('common.fov')} {((camera.halfWidth * 2) / UNITS_PER_MM).toFixed(1)} mm
+          </text>
+
+          {/* Optical axis: the light angle is measured from this line */}
+          <line x1={centerX} y1={cameraY} x2={centerX} y2={surfaceY} stroke="#334155" strokeDasharray="2,4" />
+
           {/* The Surface (Object) */}
-          {/* Flat line with a dent in the middle */}
-          <path 
-            d={`M 20 ${surfaceY} L ${dentLeft} ${surfaceY} L ${centerX} ${dentBottom} L ${dentRight} ${surfaceY} L ${width-20} ${surfaceY}`}
-            stroke="#64748b" 
-            strokeWidth="4" 
-            fill="none" 
+          <path
+            d={surfacePath}
+            stroke="#64748b"
+            strokeWidth="4"
+            fill="none"
           />
           {/* Surface Fill for clarity */}
-          <path 
-            d={`M 20 ${surfaceY} L ${dentLeft} ${surfaceY} L ${centerX} ${dentBottom} L ${dentRight} ${surfaceY} L ${width-20} ${surfaceY} L ${width-20} ${height} L 20 ${height} Z`}
-            fill="#1e293b" 
-            opacity="0.5"
+          <path
+            d={setup.backlit ? `${surfacePath} Z` : `${surfacePath} L ${width-20} ${height} L 20 ${height} Z`}
+            fill="#1e293b"
+            opacity={setup.backlit ? 0.9 : 0.5}
           />
 
-          {/* RAYS */}
-          {isBrightField ? (
-            <g className="animate-dash">
-              {/* Ray 1: Hits Flat Surface -> Reflects UP into Camera (BRIGHT) */}
-              <path 
-                d={`M ${centerX - 60} 100 L ${centerX - 60} ${surfaceY} L ${centerX - 10} ${cameraY + 20}`} 
-                stroke="#facc15" 
-                strokeWidth="2" 
-                fill="none" 
-                markerEnd="url(#arrow)"
+          {/* RAYS (traced from the light through every reflection) */}
+          <g className="animate-dash">
+            {rays.map((ray, i) => (
+              <path
+                key={i}
+                d={profileToPath(ray.path)}
+                stroke={sceneLightColor(ray.sourceId)}
+                strokeWidth="2"
+                fill="none"
+                strokeDasharray={ray.captured ? undefined : '4,4'}
+                markerEnd={`url(#${markerId(ray.sourceId)}${ray.captured && !blockedByAnalyzer ? '' : '-faint'})`}
+                opacity={(ray.captured ? 0.3 + 0.7 * analyzerPass : 0.6) * (rayHighlighted(ray.captured) ? 1 : 0.2)}
               />
-              <text x={centerX - 80} y={surfaceY - 40} fill="white" fontSize="10" textAnchor="end">
-                {isZh ? '照射平坦处' : 'Hits Flat'}
-              </text>
-
-               {/* Ray 2: Hits Slope of Dent -> Reflects AWAY (DARK) */}
-               {/* Hitting the left slope of the dent */}
-              <path 
-                d={`M ${centerX - 10} 100 L ${centerX - 10} ${dentBottom - 5} L ${centerX + 80} ${surfaceY - 60}`} 
-                stroke="#facc15" 
-                strokeWidth="2" 
-                fill="none" 
-                strokeDasharray="4,4"
-                markerEnd="url(#arrow-faint)"
-                opacity="0.6"
+            ))}
+          </g>
+          {/* Polarized rays carry beads along their path */}
+          {polarization.polarizer && rays.map((ray, i) => (
+            <path key={`pol-${i}`} d={profileToPath(ray.path)} stroke="#f8fafc" strokeWidth="1.5" strokeDasharray="1,6" strokeLinecap="round" fill="none" opacity="0.7" />
+          ))}
+          {blockedByAnalyzer && rays.filter(ray => ray.captured).map((ray, i) => {
+            const end = ray.path[ray.path.length - 1];
+            return (
+              <text key={`blocked-${i}`} x={end.x} y={end.y + 12} fill="#f87171" fontSize="10" textAnchor="middle">×</text>
+            );
+          })}
+          {rays.flatMap((ray, i) =>
+            ray.hits.map((hit, j) => (
+              <circle
+                key={`${i}-${j}`}
+                cx={hit.point.x}
+                cy={hit.point.y}
+                r="2"
+                fill={hit.region === 'defect' ? '#ef4444' : sceneLightColor(ray.sourceId)}
               />
-               <text x={centerX + 90} y={surfaceY - 60} fill="#94a3b8" fontSize="10">
-                {isZh ? '杂散光 (不进镜头)' : 'Scatter (Misses Lens)'}
-              </text>
-            </g>
-          ) : (
-            <g className="animate-dash">
-              {/* Ray 1: Low Angle -> Hits Flat Surface -> Reflects AWAY (DARK) */}
-              <path 
-                d={`M 50 ${surfaceY - 40} L ${centerX - 50} ${surfaceY} L ${width - 50} ${surfaceY - 100}`} 
-                stroke="#facc15" 
-                strokeWidth="2" 
-                fill="none" 
-                strokeDasharray="4,4"
-                markerEnd="url(#arrow-faint)"
-                opacity="0.6"
-              />
-               <text x={width - 50} y={surfaceY - 105} fill="#94a3b8" fontSize="10">
-                {isZh ? '反射光 (不进镜头)' : 'Reflects Away'}
-              </text>
-
-              {/* Ray 2: Low Angle -> Hits Slope of Dent -> Reflects UP into Camera (BRIGHT) */}
-              <path 
-                d={`M 50 ${surfaceY - 30} L ${dentLeft + 5} ${surfaceY + 2} L ${centerX} ${cameraY + 20}`} 
-                stroke="#facc15" 
-                strokeWidth="2" 
-                fill="none" 
-                markerEnd="url(#arrow)"
-              />
-              <text x={centerX + 10} y={cameraY + 50} fill="white" fontSize="10" textAnchor="start">
-                 {isZh ? '漫反射进镜头' : 'Diffused into Lens'}
-              </text>
-            </g>
+            ))
           )}
 
+          {/* Scatter lobes: specular spike plus diffuse half-disc of the material */}
+          {lobeHits.map((hit, i) => (
+            <path key={`lobe-${i}`} d={lobePath(hit, material)} fill="#f472b6" fillOpacity="0.15" stroke="#f472b6" strokeWidth="0.75" strokeOpacity="0.7" />
+          ))}
+
+          {enabledLights.map(renderFixture)}
+
+          {highlight && <g className="animate-pulse">{renderHighlight()}</g>}
+
           {/* Labels for Object Features */}
           <text x={centerX - 80} y={surfaceY + 20} fill="#64748b" fontSize="10" textAnchor="middle">
-             {isZh ? '平坦表面' : 'Flat Surface'}
-          </text>
-          <text x={centerX} y={surfaceY + 35} fill="#ef4444" fontSize="10" textAnchor="middle" fontWeight="bold">
-             {isZh ? '缺陷/刻字' : 'Defect/Text'}
+             {t('diagram.flatSurface')}
           </text>
+          {feature && (
+            <text x={featureLabelX} y={surfaceY + 35} fill="#ef4444" fontSize="10" textAnchor="middle" fontWeight="bold">
+               {t('diagram.defect')}
+            </text>
+          )}
 
         </svg>
       </div>
-      
+
       {/* Logic Summary Footer */}
       <div className="mt-3 p-2 bg-slate-900 rounded text-center">
         <p className="text-xs text-slate-300">
-          {mode === LightingMode.BRIGHT_FIELD 
-            ? (isZh ? '结论：平坦反光强 (白)，缺陷反光跑偏 (黑)' : 'Result: Flat reflects light IN. Defect reflects light OUT.')
-            : (isZh ? '结论：平坦反光跑偏 (黑)，缺陷把光“勾”进镜头 (白)' : 'Result: Flat reflects light OUT. Defect catches light IN.')
-          }
+          {resultText()}
         </p>
+        {outOfPlane > 0 && (
+          <p className="text-[10px] text-slate-500 mt-1">
+            {t('diagram.outOfPlane', { count: outOfPlane })}
+          </p>
+        )}
       </div>
     </div>
   );
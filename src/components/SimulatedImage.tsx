@@ -1,101 +1,222 @@
-import React from 'react';
-import { LightingMode, Language } from '../types';
+import React, { useEffect, useMemo, useRef } from 'react';
+import { LightingMode, CameraAperture, CameraLevels, Heightmap, Material, Point, SceneLight } from '../types';
 import { CheckCircle2, XCircle } from 'lucide-react';
+import { LightingSetup } from '../optics/lightingModes';
+import { SCENE } from '../optics/scene';
+import { UNITS_PER_MM } from '../optics/lens';
+import { buildCoinHeightmap, featureRelief, rasterizeCoinInk, rasterizeCoinMarking, unitsPerMapPixel } from '../optics/heightmap';
+import { RED_INK, toLights3D } from '../optics/materials';
+import { SpectralResponse, applySpectrum } from '../optics/spectrum';
+import { RenderOptions, computeNormals, renderCameraImage } from '../optics/imageRenderer';
+import { PolarizationWeights } from '../optics/polarization';
+import PhotometricStereoView from './PhotometricStereoView';
+import { TranslationKey } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
 
 interface SimulatedImageProps {
   mode: LightingMode;
-  language: Language;
+  levels: CameraLevels;
+  setup: LightingSetup;
+  sceneLights: SceneLight[];
+  material: Material;
+  profile: Point[];
+  customMap: Heightmap | null; // Replaces the coin when the user loads a part
+  sectionRow: number;
+  camera: CameraAperture;
+  spectral: SpectralResponse;
+  polarization: PolarizationWeights;
 }
 
-const SimulatedImage: React.FC<SimulatedImageProps> = ({ mode, language }) => {
-  const isBrightField = mode === LightingMode.BRIGHT_FIELD;
-  const isZh = language === 'zh';
+interface UseCase {
+  key: TranslationKey;
+  suitable: boolean;
+}
+
+const USE_CASES: Record<LightingMode, UseCase[]> = {
+  [LightingMode.BRIGHT_FIELD]: [
+    { key: 'useCase.BRIGHT_FIELD.flatness', suitable: true },
+    { key: 'useCase.BRIGHT_FIELD.pits', suitable: true },
+    { key: 'useCase.BRIGHT_FIELD.presence', suitable: true },
+    { key: 'useCase.BRIGHT_FIELD.scratches', suitable: false },
+  ],
+  [LightingMode.DARK_FIELD]: [
+    { key: 'useCase.DARK_FIELD.scratches', suitable: true },
+    { key: 'useCase.DARK_FIELD.text', suitable: true },
+    { key: 'useCase.DARK_FIELD.edges', suitable: true },
+    { key: 'useCase.DARK_FIELD.color', suitable: false },
+  ],
+  [LightingMode.COAXIAL]: [
+    { key: 'useCase.COAXIAL.marks', suitable: true },
+    { key: 'useCase.COAXIAL.dents', suitable: true },
+    { key: 'useCase.COAXIAL.even', suitable: true },
+    { key: 'useCase.COAXIAL.curved', suitable: false },
+  ],
+  [LightingMode.DOME]: [
+    { key: 'useCase.DOME.curved', suitable: true },
+    { key: 'useCase.DOME.packaging', suitable: true },
+    { key: 'useCase.DOME.glare', suitable: true },
+    { key: 'useCase.DOME.shallow', suitable: false },
+  ],
+  [LightingMode.BACKLIGHT]: [
+    { key: 'useCase.BACKLIGHT.outline', suitable: true },
+    { key: 'useCase.BACKLIGHT.holes', suitable: true },
+    { key: 'useCase.BACKLIGHT.fill', suitable: true },
+    { key: 'useCase.BACKLIGHT.top', suitable: false },
+  ],
+  [LightingMode.LOW_ANGLE_RING]: [
+    { key: 'useCase.LOW_ANGLE_RING.scratches', suitable: true },
+    { key: 'useCase.LOW_ANGLE_RING.stamped', suitable: true },
+    { key: 'useCase.LOW_ANGLE_RING.dust', suitable: true },
+    { key: 'useCase.LOW_ANGLE_RING.print', suitable: false },
+  ],
+  [LightingMode.PHOTOMETRIC_STEREO]: [
+    { key: 'useCase.PHOTOMETRIC_STEREO.embossed', suitable: true },
+    { key: 'useCase.PHOTOMETRIC_STEREO.albedo', suitable: true },
+    { key: 'useCase.PHOTOMETRIC_STEREO.curvature', suitable: true },
+    { key: 'useCase.PHOTOMETRIC_STEREO.moving', suitable: false },
+  ],
+};
+
+// Pixels per side of the rendered image; low enough to redraw while dragging
+const IMAGE_SIZE = 128;
+
+const SimulatedImage: React.FC<SimulatedImageProps> = ({
+  mode,
+  levels,
+  setup,
+  sceneLights,
+  material,
+  profile,
+  customMap,
+  sectionRow,
+  camera,
+  spectral,
+  polarization,
+}) => {
+  const { t } = useTranslation();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const backgroundLevel = levels.flat;
+  const contrast = levels.defect - backgroundLevel;
+
+  // The marking only needs rasterizing once; the relief follows the profile
+  const marking = useMemo(() => rasterizeCoinMarking(IMAGE_SIZE), []);
+  const ink = useMemo(() => rasterizeCoinInk(IMAGE_SIZE), []);
+  const relief = featureRelief(profile, SCENE.surfaceY);
+  const heightmap = useMemo(
+    () => customMap ?? buildCoinHeightmap(IMAGE_SIZE, marking, relief, ink),
+    [customMap, marking, relief, ink]
+  );
+  const normals = useMemo(() => computeNormals(heightmap), [heightmap]);
+  const fieldWidth = camera.halfWidth * 2;
+
+  // Where the diagram's section row lands in the field of view (0..1 from the top)
+  const sectionOffset = customMap
+    ? 0.5 + ((sectionRow - (customMap.height - 1) / 2) * unitsPerMapPixel(customMap)) / fieldWidth
+    : null;
+
+  const isStereo = mode === LightingMode.PHOTOMETRIC_STEREO;
+  const renderOptions: RenderOptions = useMemo(
+    () => ({
+      material,
+      inkMaterial: applySpectrum(RED_INK, spectral),
+      camera,
+      backlight: setup.backlight,
+      exposure: spectral.exposure,
+      polarization,
+    }),
+    [material, spectral, camera, setup, polarization]
+  );
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const image = ctx.createImageData(IMAGE_SIZE, IMAGE_SIZE);
+    renderCameraImage(heightmap, normals, toLights3D(setup.lights), renderOptions, image.data, IMAGE_SIZE);
+    ctx.putImageData(image, 0, 0);
+  }, [heightmap, normals, setup, renderOptions, isStereo]);
+
+  const outputLabel = () => {
+    if (levels.backdrop !== null) {
+      return t('image.silhouette');
+    }
+    if (Math.abs(contrast) < 0.15) {
+      return backgroundLevel > 0.5
+        ? t('image.allBright')
+        : t('image.allDark');
+    }
+    return contrast < 0
+      ? t('image.brightBackground')
+      : t('image.darkBackground');
+  };
 
   return (
     <div className="flex flex-col items-center space-y-2">
       <div className="text-xs text-slate-400 uppercase tracking-widest">
-        {isZh ? '相机成像效果' : 'Camera Output'}
+        {t('image.title')}
       </div>
       
-      <div className="relative w-48 h-48 rounded-full border-4 border-slate-600 overflow-hidden shadow-2xl flex items-center justify-center transition-colors duration-700">
-        
-        {/* Background Layer */}
-        <div className={`absolute inset-0 transition-colors duration-700 ${isBrightField ? 'bg-white' : 'bg-black'}`}></div>
-
-        {/* The Feature (Scratch/Text) */}
-        {/* In Bright Field: Background is White, Defect scatters light away -> Defect looks DARK */}
-        {/* In Dark Field: Background is Black, Defect scatters light up -> Defect looks BRIGHT */}
-        
-        <div className="relative z-10 flex flex-col items-center justify-center transform rotate-12">
-           {/* Simulating a "5" or scratch */}
-           <div className={`
-             text-6xl font-bold font-serif transition-colors duration-700 select-none
-             ${isBrightField ? 'text-slate-800' : 'text-white drop-shadow-[0_0_10px_rgba(255,255,255,0.8)]'}
-           `}>
-             5¢
-           </div>
-           <div className={`
-              mt-2 w-16 h-1 rounded-full transition-colors duration-700
-              ${isBrightField ? 'bg-slate-900' : 'bg-white shadow-[0_0_8px_white]'}
-           `}></div>
+      {isStereo ? (
+        <PhotometricStereoView
+          heightmap={heightmap}
+          normals={normals}
+          setup={setup}
+          sceneLights={sceneLights}
+          options={renderOptions}
+          size={IMAGE_SIZE}
+        />
+      ) : (
+        <div className="relative w-48 h-48 rounded-xl border-4 border-slate-600 overflow-hidden shadow-2xl bg-black">
+          {/* Each pixel is shaded from the part's surface normal under the active lights */}
+          <canvas
+            ref={canvasRef}
+            width={IMAGE_SIZE}
+            height={IMAGE_SIZE}
+            className="absolute inset-0 w-full h-full"
+            style={{ imageRendering: 'pixelated' }}
+          />
+          {/* Row the ray diagram cuts through */}
+          {sectionOffset !== null && sectionOffset >= 0 && sectionOffset <= 1 && (
+            <div
+              className="absolute inset-x-0 border-t border-dashed border-optics-accent/70 pointer-events-none"
+              style={{ top: `${sectionOffset * 100}%` }}
+            ></div>
+          )}
         </div>
-
-        {/* Glare effect for realism */}
-        <div className="absolute top-4 right-8 w-8 h-8 bg-white opacity-10 rounded-full blur-xl pointer-events-none"></div>
+      )}
+      <div className="text-[10px] font-mono text-slate-500">
+        {t('common.fov')} {(fieldWidth / UNITS_PER_MM).toFixed(1)} mm · {((fieldWidth / UNITS_PER_MM / IMAGE_SIZE) * 1000).toFixed(0)} µm/px
       </div>
+      {/* Glare is shown relative to the diffuse light, which gain keeps level */}
+      {polarization.gain > 1 && (
+        <div className="text-[10px] font-mono text-slate-500">
+          {t('image.glare')} ×{(polarization.specular / polarization.diffuse).toFixed(2)} · {t('image.gain')} ×{polarization.gain.toFixed(1)}
+        </div>
+      )}
 
-      <div className="text-center px-4">
-        <p className="font-semibold text-sm text-optics-accent">
-          {isBrightField 
-            ? (isZh ? '背景亮 (白色)，特征暗 (黑色)' : 'Bright Background, Dark Features')
-            : (isZh ? '背景暗 (黑色)，特征亮 (白色)' : 'Dark Background, Bright Features')}
-        </p>
-      </div>
+      {!isStereo && (
+        <div className="text-center px-4">
+          <p className="font-semibold text-sm text-optics-accent">
+            {outputLabel()}
+          </p>
+        </div>
+      )}
 
       <div className="w-full space-y-3 mt-6 pt-4 border-t border-slate-700/50">
         <h4 className="text-sm font-semibold text-slate-400 uppercase">
-          {isZh ? '适用场景' : 'Best For Detecting'}
+          {t('image.bestFor')}
         </h4>
         <ul className="space-y-2">
-          {mode === LightingMode.BRIGHT_FIELD ? (
-            <>
-              <li className="flex items-center text-sm text-slate-300">
-                <CheckCircle2 className="w-4 h-4 mr-2 text-green-500 flex-shrink-0" /> 
-                {isZh ? '表面平整度检测' : 'Flatness inspection'}
-              </li>
-              <li className="flex items-center text-sm text-slate-300">
-                <CheckCircle2 className="w-4 h-4 mr-2 text-green-500 flex-shrink-0" /> 
-                {isZh ? '明显的黑点 / 深坑' : 'Dark spots / Deep pits'}
-              </li>
-              <li className="flex items-center text-sm text-slate-300">
-                <CheckCircle2 className="w-4 h-4 mr-2 text-green-500 flex-shrink-0" /> 
-                {isZh ? '有无检测 (Presence)' : 'Presence/Absence'}
-              </li>
-              <li className="flex items-center text-sm text-slate-500">
-                <XCircle className="w-4 h-4 mr-2 text-red-500 flex-shrink-0" /> 
-                {isZh ? '细微划痕 (不适用)' : 'Tiny surface scratches'}
-              </li>
-            </>
-          ) : (
-            <>
-              <li className="flex items-center text-sm text-slate-300">
-                <CheckCircle2 className="w-4 h-4 mr-2 text-green-500 flex-shrink-0" /> 
-                {isZh ? '表面细微划痕 (最常用)' : 'Surface Scratches'}
-              </li>
-              <li className="flex items-center text-sm text-slate-300">
-                <CheckCircle2 className="w-4 h-4 mr-2 text-green-500 flex-shrink-0" /> 
-                {isZh ? 'OCR 字符识别 / 浮雕字' : 'Embossed/Engraved Text'}
-              </li>
-              <li className="flex items-center text-sm text-slate-300">
-                <CheckCircle2 className="w-4 h-4 mr-2 text-green-500 flex-shrink-0" /> 
-                {isZh ? '边缘轮廓检测' : 'Edge defects'}
-              </li>
-              <li className="flex items-center text-sm text-slate-500">
-                <XCircle className="w-4 h-4 mr-2 text-red-500 flex-shrink-0" /> 
-                {isZh ? '平坦区域的颜色变化' : 'Color changes on flat surfaces'}
-              </li>
-            </>
-          )}
+          {USE_CASES[mode].map(useCase => (
+            <li
+              key={useCase.key}
+              className={`flex items-center text-sm ${useCase.suitable ? 'text-slate-300' : 'text-slate-500'}`}
+            >
+              {useCase.suitable
+                ? <CheckCircle2 className="w-4 h-4 mr-2 text-green-500 flex-shrink-0" />
+                : <XCircle className="w-4 h-4 mr-2 text-red-500 flex-shrink-0" />}
+              {t(useCase.key)}
+            </li>
+          ))}
         </ul>
       </div>
     </div>
@@ -0,0 +1,92 @@
+import React from 'react';
+import { CameraFilter, LightColor } from '../types';
+import { Palette } from 'lucide-react';
+import { SpectralResponse, WAVELENGTHS } from '../optics/spectrum';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface SpectrumPanelProps {
+  lightColor: LightColor;
+  onLightColorChange: (color: LightColor) => void;
+  filter: CameraFilter;
+  onFilterChange: (filter: CameraFilter) => void;
+  response: SpectralResponse;
+}
+
+// Swatch colors; UV and IR are invisible, so they get conventional stand-ins
+const LIGHT_OPTIONS: { color: LightColor; nm?: number; swatch: string }[] = [
+  { color: 'white', swatch: '#f8fafc' },
+  { color: 'red', nm: WAVELENGTHS.red, swatch: '#ef4444' },
+  { color: 'green', nm: WAVELENGTHS.green, swatch: '#22c55e' },
+  { color: 'blue', nm: WAVELENGTHS.blue, swatch: '#3b82f6' },
+  { color: 'ir', nm: WAVELENGTHS.ir, swatch: '#7f1d1d' },
+  { color: 'uv', nm: WAVELENGTHS.uv, swatch: '#a855f7' },
+];
+
+const FILTERS: CameraFilter[] = ['none', 'red', 'green', 'blue', 'ir', 'uv'];
+
+const SpectrumPanel: React.FC<SpectrumPanelProps> = ({
+  lightColor,
+  onLightColorChange,
+  filter,
+  onFilterChange,
+  response,
+}) => {
+  const { t } = useTranslation();
+  const blocked = response.exposure < 0.5;
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700/50 space-y-3">
+      <div className="flex items-center space-x-2 text-sm font-semibold text-slate-300">
+        <Palette className="w-4 h-4 text-optics-accent" />
+        <span>{t('spectrum.title')}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {LIGHT_OPTIONS.map(option => (
+          <button
+            key={option.color}
+            onClick={() => onLightColorChange(option.color)}
+            className={`flex items-center space-x-1.5 px-3 py-1 rounded-full text-xs transition-colors ${
+              option.color === lightColor
+                ? 'bg-slate-200 text-slate-900 font-semibold'
+                : 'bg-slate-900 text-slate-400 border border-slate-700 hover:text-white'
+            }`}
+          >
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: option.swatch }}></span>
+            <span>{t(`lightColor.${option.color}`)}{option.nm !== undefined && ` ${option.nm}nm`}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {FILTERS.map(option => (
+          <button
+            key={option}
+            onClick={() => onFilterChange(option)}
+            className={`px-3 py-1 rounded-full text-xs transition-colors ${
+              option === filter
+                ? 'bg-optics-accent text-slate-900 font-semibold'
+                : 'bg-slate-900 text-slate-400 border border-slate-700 hover:text-white'
+            }`}
+          >
+            {t(`filter.${option}`)}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-[10px] font-mono text-slate-500">
+        <span>{t('spectrum.wavelength')} {Math.round(response.wavelength)} nm</span>
+        <span className={blocked ? 'text-red-400' : undefined}>
+          {t('spectrum.signal')} {Math.round(response.exposure * 100)}%
+        </span>
+      </div>
+      <p className="text-[10px] text-slate-500">
+        {blocked
+          ? t('spectrum.blocked')
+          : t('spectrum.note')}
+      </p>
+    </div>
+  );
+};
+
+export default SpectrumPanel;
@@ -0,0 +1,101 @@
+import { ExampleCase, LightingMode } from '../types';
+import { FLAT_PROFILE } from '../optics/scene';
+import { flatPartWith } from '../optics/surfaceFeatures';
+
+export const EXAMPLE_CASES: ExampleCase[] = [
+  {
+    id: 'coin-date',
+    name: { en: 'Coin Date', zh: '硬币年份', ja: 'コインの年号', de: 'Münzjahr' },
+    description: {
+      en: 'Raised digits on a polished coin. Bright field turns the whole face into glare; a low-angle ring leaves the face black and makes every digit edge glow, whichever way it runs.',
+      zh: '抛光硬币上的凸起数字。亮视野下整个币面都是反光；低角度环形光让币面变黑，数字的每条边缘不论朝向都会发亮。',
+      ja: '研磨されたコイン上の浮き出た数字。明視野では面全体が反射で白く飛びます。ローアングルリング照明なら面は黒く、数字のエッジはどの向きでも光ります。',
+      de: 'Erhabene Ziffern auf einer polierten Münze. Im Hellfeld wird die ganze Fläche zum Glanz; ein Flachwinkel-Ringlicht lässt die Fläche schwarz und bringt jede Ziffernkante zum Leuchten, egal wie sie verläuft.',
+    },
+    material: 'polished-metal',
+    profile: flatPartWith(
+      { kind: 'embossed', centerX: 150, width: 30, depth: 4 },
+      { kind: 'embossed', centerX: 200, width: 30, depth: 4 },
+      { kind: 'embossed', centerX: 250, width: 30, depth: 4 }
+    ),
+    before: { mode: LightingMode.BRIGHT_FIELD, lightColor: 'white' },
+    recommended: { mode: LightingMode.LOW_ANGLE_RING, lightColor: 'white' },
+  },
+  {
+    id: 'ic-marking',
+    name: { en: 'Engraved IC Marking', zh: '芯片激光刻字', ja: 'IC のレーザー刻印', de: 'Gravierte IC-Beschriftung' },
+    description: {
+      en: 'Laser-engraved part number (like "LM386") on a molded package. The grooves are shallow, so a dome flattens them away; grazing dark-field light catches their walls.',
+      zh: '塑封芯片上激光刻出的型号 (如 "LM386")。刻槽很浅，穹顶光会把它们抹平；掠射的暗视野光能照亮槽壁。',
+      ja: 'モールドパッケージにレーザー刻印された型番 (例："LM386")。溝が浅いためドーム照明では消えてしまいます。斜めから当てる暗視野の光なら溝の壁面を捉えられます。',
+      de: 'Lasergravierte Typenbezeichnung (etwa "LM386") auf einem Kunststoffgehäuse. Die Rillen sind flach, ein Dom ebnet sie ein; streifendes Dunkelfeldlicht erfasst ihre Wände.',
+    },
+    material: 'matte-plastic',
+    profile: flatPartWith(
+      { kind: 'v-scratch', centerX: 160, width: 14, depth: 6 },
+      { kind: 'v-scratch', centerX: 200, width: 14, depth: 6 },
+      { kind: 'v-scratch', centerX: 240, width: 14, depth: 6 }
+    ),
+    before: { mode: LightingMode.DOME, lightColor: 'white' },
+    recommended: { mode: LightingMode.DARK_FIELD, lightColor: 'white' },
+  },
+  {
+    id: 'pcb-solder',
+    name: { en: 'PCB Solder Joints', zh: 'PCB 焊点', ja: '基板のはんだ接合部', de: 'Lötstellen auf Leiterplatten' },
+    description: {
+      en: 'Curved, mirror-like solder fillets. A single lamp leaves a hot spot on each joint and black flanks; a dome lights every slope so the fillet shape reads evenly.',
+      zh: '弧形、镜面般的焊锡。单个光源在焊点上留下亮斑、侧面发黑；穹顶光照亮每个坡面，焊点形状均匀可读。',
+      ja: '曲面で鏡のようなはんだフィレット。単一の光源では各接合部に強い光点が生じ、側面は黒くなります。ドーム照明ならすべての斜面が照らされ、フィレット形状が均一に見えます。',
+      de: 'Gewölbte, spiegelnde Lötkehlen. Eine einzelne Lampe erzeugt auf jeder Lötstelle einen Glanzpunkt und schwarze Flanken; ein Dom beleuchtet jede Schräge, sodass die Form gleichmäßig lesbar ist.',
+    },
+    material: 'polished-metal',
+    profile: flatPartWith(
+      { kind: 'rounded-pit', centerX: 140, width: 50, depth: -18 },
+      { kind: 'rounded-pit', centerX: 260, width: 50, depth: -18 }
+    ),
+    before: { mode: LightingMode.BRIGHT_FIELD, lightColor: 'white' },
+    recommended: { mode: LightingMode.DOME, lightColor: 'white' },
+  },
+  {
+    id: 'glass-vial-crack',
+    name: { en: 'Glass Vial Crack', zh: '玻璃瓶裂纹', ja: 'ガラス瓶のひび', de: 'Riss im Glasfläschchen' },
+    description: {
+      en: 'A hairline crack in clear glass. Glass reflects only a few percent, so bright field shows a faint even glare with the crack barely darker. In dark field the crack walls send a faint glint into the lens and nothing else does: on the black background, raising the gain brings it out.',
+      zh: '透明玻璃上的细裂纹。玻璃只反射百分之几的光，亮视野下只有一层淡淡的均匀反光，裂纹几乎看不出。暗视野下只有裂纹侧壁把微弱的光送进镜头，背景全黑，提高增益就能把它凸显出来。',
+      ja: '透明ガラスの細いひび。ガラスは数パーセントしか反射しないため、明視野では淡く均一な反射の中でひびがわずかに暗く見えるだけです。暗視野ではひびの壁面だけがかすかな光をレンズに送るので、黒い背景の上でゲインを上げれば浮かび上がります。',
+      de: 'Ein Haarriss in klarem Glas. Glas reflektiert nur wenige Prozent, daher zeigt das Hellfeld einen schwachen, gleichmäßigen Glanz, in dem der Riss kaum dunkler ist. Im Dunkelfeld senden nur die Risswände einen schwachen Schimmer ins Objektiv: Auf dem schwarzen Hintergrund holt eine höhere Verstärkung ihn hervor.',
+    },
+    material: 'glass',
+    profile: flatPartWith({ kind: 'v-scratch', centerX: 200, width: 16, depth: 6 }),
+    before: { mode: LightingMode.BRIGHT_FIELD, lightColor: 'white' },
+    recommended: { mode: LightingMode.DARK_FIELD, lightColor: 'white' },
+  },
+  {
+    id: 'brushed-scratch',
+    name: { en: 'Brushed Aluminum Scratch', zh: '拉丝铝划痕', ja: 'ヘアラインアルミの傷', de: 'Kratzer in gebürstetem Aluminium' },
+    description: {
+      en: 'A scratch across a brushed finish. The brushing spreads coaxial light into a grey sheen that swallows the scratch; low-angle light leaves the sheen dark and lights the scratch walls.',
+      zh: '拉丝表面上的划痕。拉丝纹把同轴光散成一片灰色光泽，淹没了划痕；低角度光让拉丝面变暗，只照亮划痕侧壁。',
+      ja: 'ヘアライン仕上げを横切る傷。ヘアラインが同軸光を灰色の光沢に広げ、傷が埋もれてしまいます。低角度の光なら光沢面は暗いまま、傷の壁面だけが照らされます。',
+      de: 'Ein Kratzer quer über einer gebürsteten Oberfläche. Der Schliff verteilt Koaxiallicht zu einem grauen Schimmer, der den Kratzer verschluckt; flaches Licht lässt den Schimmer dunkel und beleuchtet die Kratzerwände.',
+    },
+    material: 'brushed-metal',
+    profile: flatPartWith({ kind: 'v-scratch', centerX: 200, width: 24, depth: 10 }),
+    before: { mode: LightingMode.COAXIAL, lightColor: 'white' },
+    recommended: { mode: LightingMode.LOW_ANGLE_RING, lightColor: 'white' },
+  },
+  {
+    id: 'label-print',
+    name: { en: 'Label Print', zh: '标签印刷', ja: 'ラベル印字', de: 'Etikettendruck' },
+    description: {
+      en: 'Red print on a white label. Under red light the print reflects as much as the label and vanishes; blue light turns it black. A dome keeps the glossy laminate from adding glare.',
+      zh: '白色标签上的红色印刷。红光下印刷与标签一样亮而“消失”；蓝光下印刷变黑。穹顶光避免覆膜反光。',
+      ja: '白いラベル上の赤い印字。赤色光では印字もラベルと同じだけ反射して消えてしまい、青色光では黒く写ります。ドーム照明で光沢ラミネートの反射を抑えます。',
+      de: 'Roter Druck auf einem weißen Etikett. Unter rotem Licht reflektiert der Druck so stark wie das Etikett und verschwindet; blaues Licht macht ihn schwarz. Ein Dom verhindert Glanz auf der glänzenden Laminierung.',
+    },
+    material: 'matte-plastic',
+    profile: FLAT_PROFILE,
+    before: { mode: LightingMode.BRIGHT_FIELD, lightColor: 'red' },
+    recommended: { mode: LightingMode.DOME, lightColor: 'blue' },
+  },
+];
@@ -0,0 +1,95 @@
+import { Lesson, LightingMode } from '../../types';
+import { DEFAULT_PROFILE } from '../../optics/scene';
+
+const brightDarkField: Lesson = {
+  id: 'bright-dark-field',
+  title: { en: 'Bright Field vs Dark Field', zh: '亮视野与暗视野', ja: '明視野と暗視野', de: 'Hellfeld und Dunkelfeld' },
+  summary: {
+    en: 'Tilt one lamp from the axis to grazing and watch a polished face go from white to black.',
+    zh: '把一个光源从光轴倾斜到掠射，观察抛光表面从全白变成全黑。',
+    ja: '1 つの光源を光軸から斜光まで傾け、研磨面が白から黒に変わる様子を見てみましょう。',
+    de: 'Kippen Sie eine Lampe von der Achse bis zum streifenden Einfall und sehen Sie, wie eine polierte Fläche von Weiß zu Schwarz wechselt.',
+  },
+  steps: [
+    {
+      narration: {
+        en: 'Here is a polished metal part with a small dent, lit by a single lamp right on the camera axis.',
+        zh: '这是一个带小凹坑的抛光金属件，由一个正好位于相机光轴上的光源照明。',
+        ja: '小さな凹みのある研磨金属ワークです。カメラの光軸上にある 1 つの光源で照らしています。',
+        de: 'Hier ist ein poliertes Metallteil mit einer kleinen Delle, beleuchtet von einer einzigen Lampe genau auf der Kameraachse.',
+      },
+      setup: { mode: LightingMode.BRIGHT_FIELD, material: 'polished-metal', profile: DEFAULT_PROFILE },
+      highlight: 'light',
+    },
+    {
+      narration: {
+        en: 'Polished metal is a mirror. Light hitting the flat face comes straight back up, inside the lens\'s acceptance cone, so the face images white.',
+        zh: '抛光金属就是一面镜子。照到平面上的光原路返回，落在镜头的接收锥内，所以表面成像为白色。',
+        ja: '研磨金属は鏡です。平らな面に当たった光はそのまま上に戻り、レンズの受光コーンに入るため、面は白く写ります。',
+        de: 'Poliertes Metall ist ein Spiegel. Licht, das auf die ebene Fläche trifft, kommt direkt nach oben zurück, in den Akzeptanzkegel des Objektivs, daher erscheint die Fläche weiß.',
+      },
+      highlight: 'captured',
+    },
+    {
+      narration: {
+        en: 'The dent\'s walls are tilted. They mirror the light off to the side, outside the cone, so the dent images dark. This is bright field: bright background, dark defect.',
+        zh: '凹坑的侧壁是倾斜的，把光反射到旁边、接收锥之外，所以凹坑成像为暗。这就是亮视野：背景亮，缺陷暗。',
+        ja: '凹みの壁面は傾いています。光を横へ、コーンの外へ反射するため、凹みは暗く写ります。これが明視野です：明るい背景に暗い欠陥。',
+        de: 'Die Wände der Delle sind geneigt. Sie spiegeln das Licht zur Seite, aus dem Kegel heraus, daher erscheint die Delle dunkel. Das ist Hellfeld: heller Hintergrund, dunkler Defekt.',
+      },
+      highlight: 'defect',
+    },
+    {
+      narration: {
+        en: 'Only light inside the acceptance cone reaches the sensor. Everything in this lesson comes down to which reflections land in it.',
+        zh: '只有落在接收锥内的光才能到达传感器。本课的一切都取决于哪些反射光落进接收锥。',
+        ja: 'センサーに届くのは受光コーン内の光だけです。このレッスンのすべては、どの反射がコーンに入るかで決まります。',
+        de: 'Nur Licht innerhalb des Akzeptanzkegels erreicht den Sensor. Alles in dieser Lektion hängt davon ab, welche Reflexionen darin landen.',
+      },
+      highlight: 'lens',
+    },
+    {
+      narration: {
+        en: 'Now tilt the lamp away from the axis. Once the flat face\'s reflection leaves the cone, the face goes dark.',
+        zh: '现在把光源从光轴上倾斜开。一旦平面的反射光离开接收锥，表面就会变暗。',
+        ja: '次に光源を光軸から傾けます。平らな面の反射がコーンから外れると、面は暗くなります。',
+        de: 'Kippen Sie die Lampe nun von der Achse weg. Sobald die Reflexion der ebenen Fläche den Kegel verlässt, wird die Fläche dunkel.',
+      },
+      highlight: 'missed',
+      task: {
+        en: 'Drag the lamp in the ray diagram (or the angle slider) past 25°.',
+        zh: '在光路图中拖动光源 (或拖动入射角滑块) 超过 25°。',
+        ja: '光線図の光源 (または入射角スライダー) を 25° より先までドラッグしてください。',
+        de: 'Ziehen Sie die Lampe im Strahlengang (oder den Winkelregler) über 25° hinaus.',
+      },
+      waitFor: { minAngle: 25 },
+    },
+    {
+      narration: {
+        en: 'The face is dark, but so is the dent. Keep lowering the lamp until the dent\'s walls tip its light up into the lens.',
+        zh: '表面暗了，但凹坑也是暗的。继续降低光源，直到凹坑侧壁把光折向上方进入镜头。',
+        ja: '面は暗くなりましたが、凹みも暗いままです。凹みの壁面が光を上向きにレンズへ送るまで、光源をさらに下げてください。',
+        de: 'Die Fläche ist dunkel, die Delle aber auch. Senken Sie die Lampe weiter, bis die Wände der Delle ihr Licht nach oben ins Objektiv lenken.',
+      },
+      highlight: 'defect',
+      task: {
+        en: 'Find an angle where the face is dark and the dent is bright.',
+        zh: '找到一个让表面暗、凹坑亮的角度。',
+        ja: '面が暗く、凹みが明るくなる角度を見つけてください。',
+        de: 'Finden Sie einen Winkel, bei dem die Fläche dunkel und die Delle hell ist.',
+      },
+      waitFor: { goal: { flat: 'dark', defect: 'bright' } },
+    },
+    {
+      narration: {
+        en: 'This is dark field: the face mirrors the low light away and only the defect sends light into the lens. Same part, same lamp, opposite image.',
+        zh: '这就是暗视野：平面把低角度光反射走，只有缺陷把光送进镜头。同一个工件、同一个光源，图像却完全相反。',
+        ja: 'これが暗視野です：面は低角度の光を外へ反射し、欠陥だけがレンズへ光を送ります。同じワーク、同じ光源で、正反対の画像になります。',
+        de: 'Das ist Dunkelfeld: Die Fläche spiegelt das flache Licht weg, und nur der Defekt schickt Licht ins Objektiv. Gleiches Teil, gleiche Lampe, umgekehrtes Bild.',
+      },
+      highlight: 'captured',
+    },
+  ],
+};
+
+export default brightDarkField;
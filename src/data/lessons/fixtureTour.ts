@@ -0,0 +1,92 @@
+import { Lesson, LightingMode } from '../../types';
+import { DEFAULT_PROFILE } from '../../optics/scene';
+
+const fixtureTour: Lesson = {
+  id: 'fixture-tour',
+  title: { en: 'A Tour of Fixtures', zh: '光源类型巡览', ja: '照明の種類めぐり', de: 'Rundgang durch die Beleuchtungen' },
+  summary: {
+    en: 'Coaxial, dome, backlight and ring on the same dented part: what each one is for.',
+    zh: '在同一个带凹坑的工件上比较同轴光、穹顶光、背光和环形光的用途。',
+    ja: '同じ凹みのあるワークで、同軸・ドーム・バックライト・リング照明の用途を比べます。',
+    de: 'Koaxial, Dom, Durchlicht und Ring am selben verbeulten Teil: wofür sich jede Beleuchtung eignet.',
+  },
+  steps: [
+    {
+      narration: {
+        en: 'A coaxial light folds a side lamp onto the camera axis with a beam splitter. It is bright field for parts too close to the lens to fit a lamp in between.',
+        zh: '同轴光用分光镜把侧面的光源折到相机光轴上。当工件离镜头太近、中间放不下光源时，它就是亮视野照明。',
+        ja: '同軸照明はビームスプリッターで側面の光源をカメラの光軸に折り返します。ワークがレンズに近すぎて間に光源を置けない場合の明視野です。',
+        de: 'Koaxiallicht lenkt eine seitliche Lampe über einen Strahlteiler auf die Kameraachse. Es ist Hellfeld für Teile, die zu nah am Objektiv liegen, um eine Lampe dazwischen zu setzen.',
+      },
+      setup: { mode: LightingMode.COAXIAL, material: 'polished-metal', profile: DEFAULT_PROFILE },
+      highlight: 'light',
+    },
+    {
+      narration: {
+        en: 'A dome surrounds the part with diffuse light, so every slope sees some lit part of the dome in its mirror direction.',
+        zh: '穹顶光用漫射光包围工件，每个坡面的镜面方向上都能看到发光的穹顶。',
+        ja: 'ドーム照明はワークを拡散光で包み込むため、どの斜面も正反射方向に光るドームの一部を見ることになります。',
+        de: 'Ein Dom umgibt das Teil mit diffusem Licht, sodass jede Schräge in ihrer Spiegelrichtung einen leuchtenden Teil des Doms sieht.',
+      },
+      task: {
+        en: 'Switch to the Dome mode.',
+        zh: '切换到穹顶光模式。',
+        ja: 'ドームモードに切り替えてください。',
+        de: 'Wechseln Sie in den Modus Dom.',
+      },
+      waitFor: { mode: LightingMode.DOME },
+      highlight: 'defect',
+    },
+    {
+      narration: {
+        en: 'The dent has vanished: face and dent are equally bright. Use a dome when shape gets in the way, such as reading print on crumpled foil.',
+        zh: '凹坑消失了：表面和凹坑一样亮。当形状造成干扰时 (例如读取褶皱箔片上的印刷) 就用穹顶光。',
+        ja: '凹みが消えました：面と凹みが同じ明るさです。しわのある箔の印字を読むときなど、形状が邪魔になる場合にドーム照明を使います。',
+        de: 'Die Delle ist verschwunden: Fläche und Delle sind gleich hell. Nehmen Sie einen Dom, wenn die Form stört, etwa beim Lesen von Aufdrucken auf zerknitterter Folie.',
+      },
+      highlight: 'flat',
+    },
+    {
+      narration: {
+        en: 'A backlight sits behind the part and shines straight into the lens. The surface does not matter at all; only the outline does.',
+        zh: '背光位于工件后方，直接照进镜头。表面状态完全无关，只看轮廓。',
+        ja: 'バックライトはワークの背後からレンズへ直接光を当てます。表面はまったく関係なく、輪郭だけが重要です。',
+        de: 'Durchlicht sitzt hinter dem Teil und strahlt direkt ins Objektiv. Die Oberfläche spielt keine Rolle, nur die Kontur zählt.',
+      },
+      task: {
+        en: 'Switch to the Backlight mode.',
+        zh: '切换到背光模式。',
+        ja: 'バックライトモードに切り替えてください。',
+        de: 'Wechseln Sie in den Modus Durchlicht.',
+      },
+      waitFor: { mode: LightingMode.BACKLIGHT },
+      highlight: 'captured',
+    },
+    {
+      narration: {
+        en: 'A low-angle ring is dark field from every side at once, so scratches and dents glow whichever way they run.',
+        zh: '低角度环形光相当于从四面八方同时打暗视野，划痕和凹坑不论朝向都会发亮。',
+        ja: 'ローアングルリング照明は全方向から同時に当てる暗視野なので、傷や凹みはどの向きでも光ります。',
+        de: 'Ein Flachwinkel-Ringlicht ist Dunkelfeld von allen Seiten zugleich, daher leuchten Kratzer und Dellen, egal wie sie verlaufen.',
+      },
+      task: {
+        en: 'Switch to the Low-Angle Ring mode.',
+        zh: '切换到低角度环形光模式。',
+        ja: 'ローアングルリングモードに切り替えてください。',
+        de: 'Wechseln Sie in den Modus Flachwinkel-Ringlicht.',
+      },
+      waitFor: { mode: LightingMode.LOW_ANGLE_RING },
+      highlight: 'defect',
+    },
+    {
+      narration: {
+        en: 'Rule of thumb: axial light for flat shiny faces, a dome to hide shape, a backlight to gauge outlines, and a low-angle ring to find surface defects.',
+        zh: '经验法则：平整亮面用轴向光，要隐藏形状用穹顶光，测量轮廓用背光，查找表面缺陷用低角度环形光。',
+        ja: '目安：平らな光沢面には同軸光、形状を隠すにはドーム、輪郭の計測にはバックライト、表面欠陥の検出にはローアングルリング。',
+        de: 'Faustregel: axiales Licht für ebene, glänzende Flächen, ein Dom, um Form zu verbergen, Durchlicht zum Vermessen von Konturen und ein Flachwinkel-Ring, um Oberflächendefekte zu finden.',
+      },
+    },
+  ],
+};
+
+export default fixtureTour;
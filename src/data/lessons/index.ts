@@ -0,0 +1,8 @@
+import { Lesson } from '../../types';
+import brightDarkField from './brightDarkField';
+import fixtureTour from './fixtureTour';
+import materials from './materials';
+
+// To add a lesson, write a file next to these that default-exports a Lesson
+// and list it here; the lesson player picks it up without other changes.
+export const LESSONS: Lesson[] = [brightDarkField, fixtureTour, materials];
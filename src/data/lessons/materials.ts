@@ -0,0 +1,81 @@
+import { Lesson, LightingMode } from '../../types';
+import { flatPartWith } from '../../optics/surfaceFeatures';
+
+const materials: Lesson = {
+  id: 'materials',
+  title: { en: 'Mirrors and Matte Surfaces', zh: '镜面与哑光表面', ja: '鏡面とマットな表面', de: 'Spiegel und matte Oberflächen' },
+  summary: {
+    en: 'Why dark field turns a polished face black but only dims a matte one.',
+    zh: '为什么暗视野能让抛光面全黑，却只能让哑光面变暗。',
+    ja: '暗視野で研磨面は真っ黒になるのに、マットな面は暗くなるだけなのはなぜか。',
+    de: 'Warum Dunkelfeld eine polierte Fläche schwarz macht, eine matte aber nur abdunkelt.',
+  },
+  steps: [
+    {
+      narration: {
+        en: 'A scratch in polished metal under dark field: the face mirrors the low light away and is black, the scratch walls light up.',
+        zh: '暗视野下抛光金属上的划痕：平面把低角度光反射走而全黑，划痕侧壁被照亮。',
+        ja: '暗視野での研磨金属の傷：面は低角度の光を外へ反射して黒くなり、傷の壁面が光ります。',
+        de: 'Ein Kratzer in poliertem Metall im Dunkelfeld: Die Fläche spiegelt das flache Licht weg und ist schwarz, die Kratzerwände leuchten.',
+      },
+      setup: {
+        mode: LightingMode.DARK_FIELD,
+        material: 'polished-metal',
+        profile: flatPartWith({ kind: 'v-scratch', centerX: 200, width: 24, depth: 10 }),
+      },
+      highlight: 'flat',
+    },
+    {
+      narration: {
+        en: 'Now change the material. A matte surface scatters light in every direction instead of mirroring it.',
+        zh: '现在更换材料。哑光表面会把光向各个方向散射，而不是镜面反射。',
+        ja: '次に材質を変えます。マットな面は光を鏡のように反射せず、あらゆる方向に散乱させます。',
+        de: 'Ändern Sie nun das Material. Eine matte Oberfläche streut Licht in alle Richtungen, statt es zu spiegeln.',
+      },
+      task: {
+        en: 'Pick Matte Plastic in the material picker.',
+        zh: '在材料选择中选择哑光塑料。',
+        ja: '材質の選択でマット樹脂を選んでください。',
+        de: 'Wählen Sie in der Materialauswahl Matter Kunststoff.',
+      },
+      waitFor: { material: 'matte-plastic' },
+      highlight: 'flat',
+    },
+    {
+      narration: {
+        en: 'The face is no longer black. Some of the scattered light always reaches the lens, so on matte parts dark field only lowers the background, and contrast comes from the scratch walls facing the lamp.',
+        zh: '表面不再是黑的。散射光总有一部分进入镜头，所以在哑光件上暗视野只能压低背景，对比度来自正对光源的划痕侧壁。',
+        ja: '面はもう黒くありません。散乱光の一部は常にレンズに届くため、マットなワークでは暗視野は背景を下げるだけで、コントラストは光源に向いた傷の壁面から生まれます。',
+        de: 'Die Fläche ist nicht mehr schwarz. Ein Teil des Streulichts erreicht immer das Objektiv, daher senkt Dunkelfeld bei matten Teilen nur den Hintergrund, und der Kontrast kommt von den Kratzerwänden, die zur Lampe zeigen.',
+      },
+      highlight: 'defect',
+    },
+    {
+      narration: {
+        en: 'Diffuse brightness follows how squarely the light hits. The lamp is now at 30°, where face and scratch look alike. Lower it and the face dims faster than the scratch wall that faces it.',
+        zh: '漫反射亮度取决于光照射得有多“正”。光源现在位于 30°，表面和划痕看起来差不多。降低光源，平面变暗得比正对光源的划痕侧壁更快。',
+        ja: '拡散反射の明るさは、光がどれだけ正面から当たるかで決まります。光源は今 30° にあり、面と傷は同じように見えます。光源を下げると、面は光源に向いた傷の壁面より速く暗くなります。',
+        de: 'Diffuse Helligkeit hängt davon ab, wie direkt das Licht auftrifft. Die Lampe steht jetzt bei 30°, wo Fläche und Kratzer gleich aussehen. Senken Sie sie, und die Fläche wird schneller dunkel als die ihr zugewandte Kratzerwand.',
+      },
+      setup: { angle: 30 },
+      task: {
+        en: 'Drag the lamp until the scratch is at least 0.35 brighter than the face.',
+        zh: '拖动光源，直到划痕比表面至少亮 0.35。',
+        ja: '傷が面より 0.35 以上明るくなるまで光源をドラッグしてください。',
+        de: 'Ziehen Sie die Lampe, bis der Kratzer mindestens 0,35 heller ist als die Fläche.',
+      },
+      waitFor: { goal: { contrast: 0.35 } },
+      highlight: 'light',
+    },
+    {
+      narration: {
+        en: 'On mirrors, lighting decides where the light goes. On matte parts it decides how much each slope receives. Pick the angle with the material in mind.',
+        zh: '对镜面而言，打光决定光往哪里去；对哑光件而言，打光决定每个坡面接收多少光。选择角度时要考虑材料。',
+        ja: '鏡面では、照明は光がどこへ行くかを決めます。マットなワークでは、各斜面がどれだけ光を受けるかを決めます。材質を考えて角度を選びましょう。',
+        de: 'Bei Spiegeln entscheidet die Beleuchtung, wohin das Licht geht. Bei matten Teilen entscheidet sie, wie viel jede Schräge abbekommt. Wählen Sie den Winkel passend zum Material.',
+      },
+    },
+  ],
+};
+
+export default materials;
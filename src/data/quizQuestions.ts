@@ -0,0 +1,200 @@
+import { LightingMode, LocalizedText, QuizQuestion, QuizTopic } from '../types';
+import { DEFAULT_PROFILE } from '../optics/scene';
+import { flatPartWith } from '../optics/surfaceFeatures';
+
+export const QUIZ_TOPICS: Record<QuizTopic, LocalizedText> = {
+  field: { en: 'Bright vs Dark Field', zh: '亮视野与暗视野', ja: '明視野と暗視野', de: 'Hellfeld und Dunkelfeld' },
+  fixtures: { en: 'Choosing a Fixture', zh: '光源选型', ja: '照明の選定', de: 'Beleuchtung auswählen' },
+  materials: { en: 'Materials', zh: '材料', ja: '材質', de: 'Materialien' },
+};
+
+const SCRATCH = flatPartWith({ kind: 'v-scratch', centerX: 200, width: 24, depth: 10 });
+
+export const QUIZ_QUESTIONS: QuizQuestion[] = [
+  {
+    id: 'dent-glow',
+    topic: 'field',
+    kind: 'mode',
+    options: [LightingMode.BRIGHT_FIELD, LightingMode.DARK_FIELD, LightingMode.COAXIAL, LightingMode.LOW_ANGLE_RING],
+    prompt: {
+      en: 'A dent in polished metal. Which mode makes the dent glow on a black background?',
+      zh: '抛光金属上有一个凹坑。哪种打光能让凹坑在黑色背景上发亮？',
+      ja: '研磨金属の凹み。凹みを黒い背景の上で光らせるのはどのモードですか？',
+      de: 'Eine Delle in poliertem Metall. Welcher Modus lässt die Delle auf schwarzem Hintergrund leuchten?',
+    },
+    explanation: {
+      en: 'Low-angle light mirrors off the flat face away from the lens, so the face is black. The dent\'s tilted walls turn that light upward into the lens. Dark field and a low-angle ring both work; the ring does it from every side.',
+      zh: '低角度光在平面上镜面反射后偏离镜头，平面发黑；凹坑倾斜的侧壁把光折向上方进入镜头。暗视野和低角度环形光都可以，环形光从各个方向都能照到。',
+      ja: '低角度の光は平らな面でレンズから外れる方向に正反射するため、面は黒くなります。凹みの傾いた壁面はその光を上向きにレンズへ送ります。暗視野とローアングルリング照明のどちらでも成立し、リングは全方向からそれを行います。',
+      de: 'Flaches Licht wird an der ebenen Fläche am Objektiv vorbei gespiegelt, die Fläche ist schwarz. Die geneigten Wände der Delle lenken dieses Licht nach oben ins Objektiv. Dunkelfeld und Flachwinkel-Ringlicht funktionieren beide; der Ring tut es von allen Seiten.',
+    },
+    material: 'polished-metal',
+    profile: DEFAULT_PROFILE,
+    goal: { flat: 'dark', defect: 'bright' },
+  },
+  {
+    id: 'dent-shadow',
+    topic: 'field',
+    kind: 'mode',
+    options: [LightingMode.BRIGHT_FIELD, LightingMode.DARK_FIELD, LightingMode.DOME, LightingMode.LOW_ANGLE_RING],
+    prompt: {
+      en: 'Same polished part. Which mode shows the face bright and the dent as a dark spot?',
+      zh: '同一个抛光件。哪种打光让表面发亮、凹坑成为暗点？',
+      ja: '同じ研磨ワークです。面を明るく、凹みを暗い点として写すのはどのモードですか？',
+      de: 'Dasselbe polierte Teil. Welcher Modus zeigt die Fläche hell und die Delle als dunklen Fleck?',
+    },
+    explanation: {
+      en: 'Light from along the axis mirrors straight back into the lens off the flat face. The dent\'s walls tip that reflection outside the acceptance cone, so the dent goes dark. A dome lights the walls from their own angle and fills the dent back in.',
+      zh: '沿光轴入射的光被平面直接反射回镜头；凹坑侧壁把反射光偏出接收锥，所以凹坑变暗。穹顶光会从侧壁对应的角度补光，把凹坑“填平”。',
+      ja: '光軸に沿って入る光は平らな面でそのままレンズへ正反射します。凹みの壁面はその反射を受光コーンの外へ傾けるため、凹みは暗くなります。ドーム照明は壁面にも対応する角度から光を当てるので、凹みが埋もれてしまいます。',
+      de: 'Licht entlang der Achse wird von der ebenen Fläche direkt ins Objektiv zurückgespiegelt. Die Wände der Delle kippen diese Reflexion aus dem Akzeptanzkegel, die Delle wird dunkel. Ein Dom beleuchtet die Wände aus ihrem eigenen Winkel und füllt die Delle wieder auf.',
+    },
+    material: 'polished-metal',
+    profile: DEFAULT_PROFILE,
+    goal: { flat: 'bright', defect: 'dark' },
+  },
+  {
+    id: 'scratch-angle',
+    topic: 'field',
+    kind: 'angle',
+    prompt: {
+      en: 'Drag the lamp in the ray diagram until the polished face turns black but the scratch lights up.',
+      zh: '在光路图中拖动光源，直到抛光表面变黑、而划痕亮起来。',
+      ja: '光線図の光源をドラッグして、研磨面が黒くなり傷が光る位置を探してください。',
+      de: 'Ziehen Sie die Lampe im Strahlengang, bis die polierte Fläche schwarz wird, der Kratzer aber aufleuchtet.',
+    },
+    explanation: {
+      en: 'Past the edge of the acceptance cone the face reflects away, but the scratch walls only start catching the light near grazing. Between the two is a band where everything is dark.',
+      zh: '超过接收锥边缘后表面反射光偏离镜头，但划痕侧壁要接近掠射时才开始把光送进镜头。两者之间有一段全黑的角度区间。',
+      ja: '受光コーンの縁を越えると面の反射はレンズから外れますが、傷の壁面が光を捉え始めるのは斜光に近づいてからです。その間には、すべてが暗くなる角度の帯があります。',
+      de: 'Jenseits des Akzeptanzkegels spiegelt die Fläche weg, doch die Kratzerwände fangen das Licht erst nahe streifendem Einfall. Dazwischen liegt ein Bereich, in dem alles dunkel ist.',
+    },
+    material: 'polished-metal',
+    profile: SCRATCH,
+    goal: { flat: 'dark', defect: 'bright' },
+  },
+  {
+    id: 'dead-zone',
+    topic: 'field',
+    kind: 'angle',
+    prompt: {
+      en: 'Find a lamp angle where both the polished face and the dent are dark.',
+      zh: '找到一个光源角度，让抛光表面和凹坑都是暗的。',
+      ja: '研磨面と凹みの両方が暗くなる光源の角度を見つけてください。',
+      de: 'Finden Sie einen Lampenwinkel, bei dem sowohl die polierte Fläche als auch die Delle dunkel sind.',
+    },
+    explanation: {
+      en: 'A mirror only sends light to the lens from one direction. Outside the bright-field cone, and away from the few angles at which the dent walls catch the lamp, nothing reaches the camera.',
+      zh: '镜面只会把某一个方向来的光送进镜头。离开亮视野接收锥后，除了凹坑侧壁恰好反光的少数角度，相机什么也看不到。',
+      ja: '鏡面は一方向からの光しかレンズへ送りません。明視野のコーンの外で、凹みの壁面が光源を捉えるわずかな角度からも外れると、カメラには何も届きません。',
+      de: 'Ein Spiegel schickt nur Licht aus einer Richtung ins Objektiv. Außerhalb des Hellfeldkegels und abseits der wenigen Winkel, in denen die Dellenwände die Lampe einfangen, erreicht nichts die Kamera.',
+    },
+    material: 'polished-metal',
+    profile: DEFAULT_PROFILE,
+    goal: { flat: 'dark', defect: 'dark' },
+  },
+  {
+    id: 'silhouette',
+    topic: 'fixtures',
+    kind: 'mode',
+    options: [LightingMode.BRIGHT_FIELD, LightingMode.COAXIAL, LightingMode.DOME, LightingMode.BACKLIGHT],
+    prompt: {
+      en: 'You only need to gauge the part\'s outline, whatever its finish. Which fixture gives a black part on a white background?',
+      zh: '只需要测量工件轮廓，与表面状态无关。哪种光源能得到白底上的黑色工件？',
+      ja: '表面の仕上げに関係なく、ワークの輪郭だけを計測したい。白い背景に黒いワークを写すのはどの照明ですか？',
+      de: 'Sie müssen nur die Kontur des Teils vermessen, unabhängig von der Oberfläche. Welche Beleuchtung liefert ein schwarzes Teil auf weißem Hintergrund?',
+    },
+    explanation: {
+      en: 'A backlight shines past the part straight into the lens. The part blocks it, so its edge shows as a sharp silhouette no matter how the surface reflects.',
+      zh: '背光从工件周围直接照进镜头，工件挡住光线，不论表面如何反光，边缘都是清晰的剪影。',
+      ja: 'バックライトはワークの脇を通ってレンズへ直接光を送ります。ワークが光を遮るため、表面の反射に関係なく、エッジはくっきりしたシルエットになります。',
+      de: 'Durchlicht strahlt am Teil vorbei direkt ins Objektiv. Das Teil blockiert es, daher erscheint seine Kante als scharfe Silhouette, egal wie die Oberfläche reflektiert.',
+    },
+    material: 'polished-metal',
+    profile: DEFAULT_PROFILE,
+    goal: { flat: 'dark', backdrop: 'bright' },
+  },
+  {
+    id: 'hide-dent',
+    topic: 'fixtures',
+    kind: 'mode',
+    options: [LightingMode.BRIGHT_FIELD, LightingMode.COAXIAL, LightingMode.DARK_FIELD, LightingMode.DOME],
+    prompt: {
+      en: 'Print on a dented, shiny can has to be read, so the dent should not show. Which fixture lights face and dent evenly?',
+      zh: '要读取有凹痕的亮面罐体上的印刷，凹痕不能干扰。哪种光源能把表面和凹痕照得一样亮？',
+      ja: '凹みのある光沢缶の印字を読みたいので、凹みは写ってほしくありません。面と凹みを均一に照らすのはどの照明ですか？',
+      de: 'Der Aufdruck auf einer verbeulten, glänzenden Dose soll gelesen werden, die Delle darf also nicht sichtbar sein. Welche Beleuchtung leuchtet Fläche und Delle gleichmäßig aus?',
+    },
+    explanation: {
+      en: 'A dome surrounds the part, so every slope has some part of the dome in its mirror direction. Face and dent are both bright and the shape disappears.',
+      zh: '穹顶光包围工件，任何坡面的镜面方向上都有发光的穹顶。表面和凹痕都很亮，形状被“抹平”。',
+      ja: 'ドームはワークを取り囲むため、どの斜面の正反射方向にもドームの一部があります。面も凹みも明るくなり、形状が消えます。',
+      de: 'Ein Dom umgibt das Teil, daher liegt in der Spiegelrichtung jeder Schräge ein Teil des Doms. Fläche und Delle sind beide hell, und die Form verschwindet.',
+    },
+    material: 'polished-metal',
+    profile: DEFAULT_PROFILE,
+    goal: { flat: 'bright', defect: 'bright' },
+  },
+  {
+    id: 'brushed-scratch',
+    topic: 'fixtures',
+    kind: 'mode',
+    options: [LightingMode.BRIGHT_FIELD, LightingMode.COAXIAL, LightingMode.DOME, LightingMode.LOW_ANGLE_RING],
+    prompt: {
+      en: 'A scratch across brushed aluminum. Which fixture makes the scratch stand out on a dark surface?',
+      zh: '拉丝铝上的划痕。哪种光源能让划痕在暗的表面上突显出来？',
+      ja: 'ヘアラインアルミを横切る傷。暗い面の上で傷を目立たせるのはどの照明ですか？',
+      de: 'Ein Kratzer quer über gebürstetem Aluminium. Welche Beleuchtung hebt den Kratzer auf einer dunklen Oberfläche hervor?',
+    },
+    explanation: {
+      en: 'The brushing spreads axial light into a grey sheen, and a dome lights everything. A low-angle ring keeps the sheen dark and lights the scratch walls from every direction.',
+      zh: '拉丝纹把轴向光散成灰色光泽，穹顶光则把一切都照亮。低角度环形光让拉丝面保持暗，并从各个方向照亮划痕侧壁。',
+      ja: 'ヘアラインは軸方向の光を灰色の光沢に広げ、ドームはすべてを照らしてしまいます。ローアングルリング照明なら光沢面は暗いまま、傷の壁面を全方向から照らします。',
+      de: 'Der Schliff verteilt axiales Licht zu einem grauen Schimmer, und ein Dom beleuchtet alles. Ein Flachwinkel-Ringlicht hält den Schimmer dunkel und beleuchtet die Kratzerwände aus jeder Richtung.',
+    },
+    material: 'brushed-metal',
+    profile: SCRATCH,
+    goal: { flat: 'dark', defect: 'bright' },
+  },
+  {
+    id: 'matte-contrast',
+    topic: 'materials',
+    kind: 'mode',
+    options: [LightingMode.BRIGHT_FIELD, LightingMode.DARK_FIELD, LightingMode.DOME, LightingMode.LOW_ANGLE_RING],
+    prompt: {
+      en: 'A scratch in matte plastic. Which mode makes the scratch clearly brighter than the surface around it?',
+      zh: '哑光塑料上的划痕。哪种打光能让划痕明显比周围表面更亮？',
+      ja: 'マット樹脂の傷。傷を周囲の面よりはっきり明るく写すのはどのモードですか？',
+      de: 'Ein Kratzer in mattem Kunststoff. Welcher Modus macht den Kratzer deutlich heller als die umgebende Fläche?',
+    },
+    explanation: {
+      en: 'Matte plastic scatters light in all directions, so the surface is never fully black. Grazing dark field leaves the flat surface dimmest while the scratch walls face the lamp, which gives the largest difference.',
+      zh: '哑光塑料向各个方向散射，表面永远不会全黑。掠射的暗视野让平面最暗，而划痕侧壁正对光源，差异最大。',
+      ja: 'マット樹脂は光をあらゆる方向に散乱するため、面が完全に黒くなることはありません。斜めからの暗視野では平らな面が最も暗くなり、傷の壁面は光源を向くので、差が最大になります。',
+      de: 'Matter Kunststoff streut Licht in alle Richtungen, die Fläche wird also nie ganz schwarz. Streifendes Dunkelfeld lässt die ebene Fläche am dunkelsten, während die Kratzerwände zur Lampe zeigen: Das ergibt den größten Unterschied.',
+    },
+    material: 'matte-plastic',
+    profile: SCRATCH,
+    goal: { defect: 'bright', contrast: 0.35 },
+  },
+  {
+    id: 'ceramic-angle',
+    topic: 'materials',
+    kind: 'angle',
+    prompt: {
+      en: 'A dent in glazed ceramic. Drag the lamp until the dent is clearly brighter than the glaze around it.',
+      zh: '釉面陶瓷上的凹坑。拖动光源，直到凹坑明显比周围的釉面更亮。',
+      ja: '釉薬のかかったセラミックの凹み。凹みが周囲の釉面よりはっきり明るくなるまで光源をドラッグしてください。',
+      de: 'Eine Delle in glasierter Keramik. Ziehen Sie die Lampe, bis die Delle deutlich heller ist als die Glasur um sie herum.',
+    },
+    explanation: {
+      en: 'Diffuse reflection follows the cosine of the incidence angle. As the lamp drops, the flat glaze gets less light while the dent wall facing the lamp stays lit, so the contrast grows.',
+      zh: '漫反射亮度随入射角余弦变化。光源越低，平坦釉面接收的光越少，而朝向光源的凹坑侧壁仍被照亮，对比度随之增大。',
+      ja: '拡散反射の明るさは入射角の余弦に従います。光源を下げると平らな釉面が受ける光は減りますが、光源に向いた凹みの壁面は照らされたままなので、コントラストが大きくなります。',
+      de: 'Diffuse Reflexion folgt dem Kosinus des Einfallswinkels. Je tiefer die Lampe steht, desto weniger Licht bekommt die ebene Glasur, während die zur Lampe zeigende Dellenwand beleuchtet bleibt: Der Kontrast wächst.',
+    },
+    material: 'ceramic',
+    profile: DEFAULT_PROFILE,
+    goal: { contrast: 0.3 },
+  },
+];
@@ -0,0 +1,9 @@
+import { createContext } from 'react';
+import { Language } from '../types';
+
+export interface I18nContextValue {
+  language: Language;
+  setLanguage: (language: Language) => void;
+}
+
+export const I18nContext = createContext<I18nContextValue | null>(null);
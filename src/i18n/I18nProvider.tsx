@@ -0,0 +1,22 @@
+import React, { useEffect, useState } from 'react';
+import { Language } from '../types';
+import { detectLanguage, saveLanguage } from './index';
+import { I18nContext } from './I18nContext';
+
+const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [language, setLanguageState] = useState<Language>(detectLanguage);
+
+  const setLanguage = (next: Language) => {
+    setLanguageState(next);
+    saveLanguage(next);
+  };
+
+  // Lets the browser pick fonts and hyphenation for the language
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  return <I18nContext.Provider value={{ language, setLanguage }}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
@@ -0,0 +1,68 @@
+import { Language, LocalizedText } from '../types';
+import en from './locales/en';
+import zh from './locales/zh';
+import ja from './locales/ja';
+import de from './locales/de';
+
+export type MessageKey = keyof typeof en;
+
+// Plural forms are stored as key_one, key_other, ... and looked up by the
+// base key with a count. Languages without a singular form skip _one.
+type PluralBase<K> = K extends `${infer Base}_other` ? Base : never;
+type SingularKey = Extract<MessageKey, `${string}_one`>;
+export type TranslationKey = MessageKey | PluralBase<MessageKey>;
+export type Messages = Record<Exclude<MessageKey, SingularKey>, string> & Partial<Record<SingularKey, string>>;
+
+export type TranslationParams = Record<string, string | number>;
+
+export type Translate = (key: TranslationKey, params?: TranslationParams) => string;
+
+export const LANGUAGES: { code: Language; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'zh', name: '中文' },
+  { code: 'ja', name: '日本語' },
+  { code: 'de', name: 'Deutsch' },
+];
+
+const CATALOGS: Record<Language, Messages> = { en, zh, ja, de };
+
+const STORAGE_KEY = 'visionoptics.language';
+
+export const isLanguage = (value: unknown): value is Language => LANGUAGES.some(({ code }) => code === value);
+
+// {name} placeholders are filled from params; a count also picks the plural form
+export const translate = (language: Language, key: TranslationKey, params?: TranslationParams): string => {
+  const catalog = CATALOGS[language] as Record<string, string | undefined>;
+  const count = params?.count;
+  const plural = typeof count === 'number' ? `${key}_${new Intl.PluralRules(language).select(count)}` : null;
+  const template =
+    (plural && catalog[plural]) ?? catalog[`${key}_other`] ?? catalog[key] ?? (en as Record<string, string>)[key] ?? key;
+  return params ? template.replace(/\{(\w+)\}/g, (match, name) => String(params[name] ?? match)) : template;
+};
+
+// Data files carry their own translations; missing ones fall back to English
+export const localize = (text: LocalizedText, language: Language) => text[language] ?? text.en;
+
+// A saved choice wins, then the first browser language we have a catalog for
+export const detectLanguage = (): Language => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLanguage(stored)) return stored;
+  } catch {
+    // Storage may be blocked; fall through to the browser settings
+  }
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const tag of preferred) {
+    const base = tag?.toLowerCase().split('-')[0];
+    if (isLanguage(base)) return base;
+  }
+  return 'en';
+};
+
+export const saveLanguage = (language: Language) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, language);
+  } catch {
+    // The choice then only lasts for this visit
+  }
+};
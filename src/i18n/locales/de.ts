@@ -0,0 +1,326 @@
+import type { Messages } from '../index';
+
+const de: Messages = {
+  // Shared
+  'common.reset': 'Zurücksetzen',
+  'common.close': 'Schließen',
+  'common.fov': 'FOV',
+  'common.listSeparator': ', ',
+
+  // Page
+  'app.title': 'VisionOptics',
+  'app.subtitle': 'Die Logik der Beleuchtung',
+  'app.desc': 'Lernen Sie die Physik hinter der Bildverarbeitung: Hellfeld und Dunkelfeld und die Beleuchtungen, die darauf aufbauen.',
+  'app.tagline': 'INTERAKTIV LERNEN',
+  'app.language': 'Sprache',
+  'app.lessons': 'Lektionen',
+  'app.quiz': 'Quiz',
+  'app.angleLabel': 'Einfallswinkel (zur optischen Achse)',
+  'app.angleHint': 'Reflexion der Fläche im Akzeptanzkegel des Objektivs → heller Hintergrund; außerhalb → dunkler Hintergrund. Sie können die Lampe auch im Strahlengang ziehen.',
+  'app.angleFixtureHint': 'Die erste Lichtquelle ist kein Spot. Der Regler ersetzt die Szene durch eine einzelne schräge Lichtquelle.',
+  'app.angleCoaxial': 'KOAXIAL',
+  'app.angleGrazing': 'STREIFEND',
+  'app.casesTitle': 'Anwendungen aus der Praxis',
+  'app.casesIntro': 'Wählen Sie einen Prüffall, um Bauteil, Material und empfohlene Beleuchtung in den Simulator oben zu laden.',
+  'app.askAi': 'Fragen? Fragen Sie die KI',
+
+  // Lighting modes
+  'mode.BRIGHT_FIELD': 'Hellfeld',
+  'mode.DARK_FIELD': 'Dunkelfeld',
+  'mode.COAXIAL': 'Koaxial',
+  'mode.DOME': 'Dom',
+  'mode.BACKLIGHT': 'Durchlicht',
+  'mode.LOW_ANGLE_RING': 'Flachwinkel-Ringlicht',
+  'mode.PHOTOMETRIC_STEREO': 'Photometrisches Stereo',
+  'modeButton.BRIGHT_FIELD': 'Hellfeld',
+  'modeButton.DARK_FIELD': 'Dunkelfeld',
+  'modeButton.COAXIAL': 'Koaxial',
+  'modeButton.DOME': 'Dom',
+  'modeButton.BACKLIGHT': 'Durchlicht',
+  'modeButton.LOW_ANGLE_RING': 'Ring',
+  'modeButton.PHOTOMETRIC_STEREO': 'Photometrisches Stereo',
+  'modeInfo.BRIGHT_FIELD.title': 'So funktioniert Hellfeld',
+  'modeInfo.BRIGHT_FIELD.desc': 'Die Lichtquelle steht hoch bzw. koaxial. Licht trifft auf die ebene Fläche und wird direkt ins Objektiv gespiegelt, der Hintergrund erscheint hell. Defekte streuen das Licht zur Seite und erscheinen dunkel.',
+  'modeInfo.DARK_FIELD.title': 'So funktioniert Dunkelfeld',
+  'modeInfo.DARK_FIELD.desc': 'Die Lichtquelle steht flach (0–30°). Licht, das auf die ebene Fläche trifft, wird am Objektiv vorbei reflektiert. Nur wenn es auf eine Kante oder einen Kratzer trifft, wird es nach OBEN ins Objektiv gelenkt, und der Defekt leuchtet hell.',
+  'modeInfo.COAXIAL.title': 'So funktioniert Koaxiallicht',
+  'modeInfo.COAXIAL.desc': 'Ein seitlich montierter Strahler wird über einen 45°-Strahlteiler auf die Objektivachse umgelenkt, das Licht fällt also genau entlang der optischen Achse ein. Spiegelglatte Bereiche werfen es direkt zurück (weiß); alles, was auch nur leicht geneigt ist, lenkt es von der Achse weg (schwarz). Die erste Wahl für glänzende, ebene Teile.',
+  'modeInfo.DOME.title': 'So funktioniert Domlicht (diffus)',
+  'modeInfo.DOME.desc': 'Licht kommt aus allen Richtungen der Halbkugel, wie bei bedecktem Himmel. Wie auch immer eine Facette geneigt ist, ein Teil des Doms spiegelt sich ins Objektiv, sodass Unebenheiten und Glanz verschwinden. Gleichmäßige Bilder mit wenig Kontrast; ideal für Aufdrucke auf gewölbten, glänzenden Teilen.',
+  'modeInfo.BACKLIGHT.title': 'So funktioniert Durchlicht',
+  'modeInfo.BACKLIGHT.desc': 'Die Lichtquelle sitzt hinter dem Teil und strahlt ins Objektiv. Licht neben dem Teil gelangt direkt in die Kamera (weiß), das Teil blockiert es und bleibt als scharfe schwarze Silhouette stehen. Man sieht nur die Kontur, nie die Oberfläche: der robusteste Aufbau für die Vermessung.',
+  'modeInfo.LOW_ANGLE_RING.title': 'So funktioniert Flachwinkel-Ringlicht',
+  'modeInfo.LOW_ANGLE_RING.desc': 'Ein flach einstrahlender Lichtring beleuchtet das Teil von allen Seiten gleichzeitig: Dunkelfeld aus jeder Richtung. Ebene Bereiche lenken das Licht weg (schwarz), und egal wie ein Kratzer verläuft, eine Seite des Rings verfängt sich darin und lässt ihn aufleuchten (weiß).',
+  'modeInfo.PHOTOMETRIC_STEREO.title': 'So funktioniert photometrisches Stereo',
+  'modeInfo.PHOTOMETRIC_STEREO.desc': 'Mehrere Lichtquellen aus verschiedenen Richtungen leuchten nacheinander, mit je einer Aufnahme. Wie hell ein Punkt in jeder Aufnahme erscheint, hängt von der Ausrichtung seiner Oberfläche ab. Löst man das Lambertsche Gesetz pro Pixel, erhält man Normale (Neigung) und Albedo (Farbe). Druck und Textur landen in der Albedo-Karte, Relief in den Normalen- und Krümmungskarten: der Weg, geprägte Schrift auf strukturierten Teilen zu lesen.',
+
+  // Ray diagram
+  'diagram.title': 'PHYSIKALISCHER STRAHLENGANG',
+  'diagram.extraLights_one': '+{count} Lichtquelle',
+  'diagram.extraLights_other': '+{count} Lichtquellen',
+  'diagram.entersLens': 'Trifft das Objektiv ({captured}/{total})',
+  'diagram.missesLens': 'Verfehlt das Objektiv',
+  'diagram.polarized': 'Polarisiert {angle}°',
+  'diagram.unpolarized': 'Unpolarisiert',
+  'diagram.analyzerPasses': 'Analysator lässt {percent}% durch',
+  'diagram.acceptanceCone': 'Akzeptanzkegel',
+  'diagram.scatterLobe': 'Streukeule',
+  'diagram.object': 'Objekt',
+  'diagram.camera': 'Kamera (Sensor)',
+  'diagram.telecentric': 'TELEZENTRISCH',
+  'diagram.standard': 'STANDARD',
+  'diagram.analyzer': 'ANALYSATOR',
+  'diagram.flatSurface': 'Ebene Fläche',
+  'diagram.defect': 'Defekt/Schrift',
+  'diagram.dragHint': 'Ziehen, um den Einfallswinkel zu ändern',
+  'diagram.coaxialLamp': 'Strahler + Strahlteiler',
+  'diagram.dome': 'Diffuser Dom',
+  'diagram.backlightPanel': 'Durchlichtpanel',
+  'diagram.ringSection': 'Ringlicht (Schnitt)',
+  'diagram.highAngle': 'Steil einfallende Quelle',
+  'diagram.lowAngle': 'Flach einfallende Quelle',
+  'diagram.result.stereo': 'Ergebnis: Die Lichtquellen leuchten einzeln nacheinander. Die Helligkeitsunterschiede zwischen den Aufnahmen ergeben die Neigung jedes Punkts.',
+  'diagram.result.backlit': 'Ergebnis: Das Licht fällt AM Teil vorbei. Das Teil ist eine schwarze Silhouette.',
+  'diagram.result.brightField': 'Ergebnis: Die Fläche spiegelt Licht HINEIN. Der Defekt spiegelt es HINAUS.',
+  'diagram.result.darkField': 'Ergebnis: Die Fläche spiegelt Licht HINAUS. Der Defekt fängt es HINEIN.',
+  'diagram.result.both': 'Ergebnis: Fläche und Defekt spiegeln beide HINEIN. Wenig Kontrast.',
+  'diagram.result.none': 'Ergebnis: Fast kein Licht erreicht das Objektiv. Das Bild ist dunkel.',
+  'diagram.outOfPlane_one': '{count} weitere Lichtquelle strahlt von außerhalb des Schnitts und zählt nur im Kamerabild.',
+  'diagram.outOfPlane_other': '{count} weitere Lichtquellen strahlen von außerhalb des Schnitts und zählen nur im Kamerabild.',
+
+  // Camera image
+  'image.title': 'Kamerabild',
+  'image.glare': 'GLANZ',
+  'image.gain': 'VERSTÄRKUNG',
+  'image.silhouette': 'Heller Hintergrund, schwarze Silhouette',
+  'image.allBright': 'Alles hell, wenig Kontrast',
+  'image.allDark': 'Alles dunkel, wenig Kontrast',
+  'image.brightBackground': 'Heller Hintergrund, dunkle Merkmale',
+  'image.darkBackground': 'Dunkler Hintergrund, helle Merkmale',
+  'image.bestFor': 'Geeignet für',
+  'useCase.BRIGHT_FIELD.flatness': 'Ebenheitsprüfung',
+  'useCase.BRIGHT_FIELD.pits': 'Dunkle Flecken / tiefe Mulden',
+  'useCase.BRIGHT_FIELD.presence': 'Anwesenheitskontrolle',
+  'useCase.BRIGHT_FIELD.scratches': 'Feine Oberflächenkratzer',
+  'useCase.DARK_FIELD.scratches': 'Oberflächenkratzer',
+  'useCase.DARK_FIELD.text': 'Geprägte/gravierte Schrift',
+  'useCase.DARK_FIELD.edges': 'Kantendefekte',
+  'useCase.DARK_FIELD.color': 'Farbänderungen auf ebenen Flächen',
+  'useCase.COAXIAL.marks': 'Markierungen auf spiegelnden Teilen (Wafer, poliertes Metall)',
+  'useCase.COAXIAL.dents': 'Dellen und Mulden auf ebenen, spiegelnden Flächen',
+  'useCase.COAXIAL.even': 'Gleichmäßige Beleuchtung ohne Seitenschatten',
+  'useCase.COAXIAL.curved': 'Gewölbte oder matte Oberflächen',
+  'useCase.DOME.curved': 'Gewölbte, glänzende Teile (Dosen, Kugeln, Folie)',
+  'useCase.DOME.packaging': 'Aufdruck auf zerknitterter Verpackung',
+  'useCase.DOME.glare': 'Unterdrücken von Textur und Glanz',
+  'useCase.DOME.shallow': 'Flache Kratzer und Dellen',
+  'useCase.BACKLIGHT.outline': 'Konturvermessung / Abmessungen',
+  'useCase.BACKLIGHT.holes': 'Bohrungen, Spalte und Anwesenheit',
+  'useCase.BACKLIGHT.fill': 'Füllstand in transparenten Behältern',
+  'useCase.BACKLIGHT.top': 'Alles auf der Oberseite',
+  'useCase.LOW_ANGLE_RING.scratches': 'Kratzer in jeder Richtung',
+  'useCase.LOW_ANGLE_RING.stamped': 'Geprägte / gestanzte Zeichen',
+  'useCase.LOW_ANGLE_RING.dust': 'Partikel und Staub auf ebenen Teilen',
+  'useCase.LOW_ANGLE_RING.print': 'Aufdrucke ohne Relief',
+  'useCase.PHOTOMETRIC_STEREO.embossed': 'Geprägte Schrift auf strukturierten Oberflächen',
+  'useCase.PHOTOMETRIC_STEREO.albedo': 'Relief und Aufdruck trennen (Albedo)',
+  'useCase.PHOTOMETRIC_STEREO.curvature': 'Flache Dellen und Beulen (Krümmung)',
+  'useCase.PHOTOMETRIC_STEREO.moving': 'Bewegte Teile und glänzende Oberflächen',
+
+  // Photometric stereo
+  'stereo.captures': 'Aufnahmen, je eine Lichtquelle',
+  'stereo.reconstruction': 'Rekonstruktion',
+  'stereo.normals': 'Normalen',
+  'stereo.albedo': 'Albedo',
+  'stereo.curvature': 'Krümmung',
+  'stereo.needLights': 'Für die Normalen werden mindestens {count} Lichtquellen aus verschiedenen Richtungen benötigt, die nicht alle in einer Ebene liegen.',
+  'stereo.note': 'Die Helligkeit jedes Pixels ändert sich mit der Lichtrichtung. Das Lambertsche Gesetz trennt die Neigung (Normale) von der Farbe (Albedo). Glanzlichter verletzen die Lambert-Annahme, daher werden glänzende Materialien schlecht rekonstruiert.',
+
+  // Light sources
+  'lights.title': 'Lichtquellen',
+  'lights.add': 'Lichtquelle hinzufügen',
+  'lights.turnOff': 'Ausschalten',
+  'lights.turnOn': 'Einschalten',
+  'lights.remove': 'Entfernen',
+  'lights.angle': 'Winkel',
+  'lights.azimuth': 'Azimut',
+  'lights.intensity': 'Intensität',
+  'lights.none': 'Keine Lichtquellen: Die Kamera sieht nichts.',
+  'lights.note': 'Die Kamera addiert das Licht aller Quellen. Azimut 0° strahlt von links im Strahlengang, 180° von rechts; andere Azimute verlassen die Schnittebene und erscheinen nur im Kamerabild.',
+  'fixture.spot': 'Spot',
+  'fixture.coaxial': 'Koaxial',
+  'fixture.ring': 'Ring',
+  'fixture.dome': 'Dom',
+  'fixture.backlight': 'Durchlicht',
+  'combo.coaxialRing': 'Koaxial + Ring',
+  'combo.quadrant': 'Quadranten (4 Spots)',
+
+  // Materials
+  'material.title': 'Oberflächenmaterial',
+  'material.specular': 'SPIEGELND F0',
+  'material.diffuse': 'DIFFUS',
+  'material.lobe': 'KEULE',
+  'material.polished-metal': 'Poliertes Metall',
+  'material.polished-metal.hint': 'Nahezu perfekter Spiegel',
+  'material.brushed-metal': 'Gebürstetes Metall',
+  'material.brushed-metal.hint': 'Breite Glanzkeule',
+  'material.matte-plastic': 'Matter Kunststoff',
+  'material.matte-plastic.hint': 'Überwiegend diffus',
+  'material.painted': 'Lackiert',
+  'material.painted.hint': 'Roter Grund unter glänzendem Klarlack',
+  'material.ceramic': 'Keramik',
+  'material.ceramic.hint': 'Hell diffus, dünnes Glanzlicht der Glasur',
+  'material.glass': 'Glas',
+  'material.glass.hint': '4 % Reflexion, der Rest geht hindurch',
+
+  // Light color and filters
+  'spectrum.title': 'Lichtfarbe & Filter',
+  'spectrum.wavelength': 'EFFEKTIVE λ',
+  'spectrum.signal': 'SIGNAL',
+  'spectrum.blocked': 'Der Filter sperrt die Wellenlänge des Lichts, fast nichts erreicht den Sensor.',
+  'spectrum.note': 'Eine Monochromkamera erfasst nur Helligkeit: Licht in der Farbe einer Markierung lässt sie verschwinden, die Komplementärfarbe macht sie dunkel. Kurze Wellenlängen streuen stärker an feinen Kratzern.',
+  'lightColor.white': 'Weiß',
+  'lightColor.red': 'Rot',
+  'lightColor.green': 'Grün',
+  'lightColor.blue': 'Blau',
+  'lightColor.ir': 'IR',
+  'lightColor.uv': 'UV',
+  'filter.none': 'Kein Filter',
+  'filter.red': 'Rot BP',
+  'filter.green': 'Grün BP',
+  'filter.blue': 'Blau BP',
+  'filter.ir': 'IR BP',
+  'filter.uv': 'UV BP',
+
+  // Polarizers
+  'polarization.title': 'Polarisatoren',
+  'polarization.polarizer': 'Polarisator (an den Lichtquellen)',
+  'polarization.analyzer': 'Analysator (am Objektiv)',
+  'polarization.cross': 'Kreuzen',
+  'polarization.axis': 'Achse',
+  'polarization.crossing': 'KREUZUNG',
+  'polarization.glarePassed': 'GLANZ DURCHGELASSEN',
+  'polarization.diffusePassed': 'DIFFUS DURCHGELASSEN',
+  'polarization.note': 'Eine Spiegelreflexion behält die Polarisation des Lichts bei, daher sperrt ein quer zum Polarisator gedrehter Analysator den Glanz. Licht, das aus dem Material zurückgestreut wird, ist depolarisiert, und die Hälfte davon kommt immer durch.',
+
+  // Lens
+  'lens.title': 'Kamera & Objektiv',
+  'lens.entocentric': 'Standard (entozentrisch)',
+  'lens.telecentric': 'Telezentrisch',
+  'lens.focalLength': 'Brennweite',
+  'lens.workingDistance': 'Arbeitsabstand',
+  'lens.aperture': 'Blende',
+  'lens.sensorSize': 'Sensorgröße',
+  'lens.magnification': 'VERGRÖSSERUNG',
+  'lens.fieldAngle': 'FELDWINKEL',
+  'lens.telecentricNote': 'Die Hauptstrahlen verlaufen parallel zur Achse, daher sieht jeder Punkt des Bildfelds Reflexionen unter demselben Winkel: gleichmäßiges Hellfeld auf spiegelnden Teilen und verzeichnungsfreie Vermessung.',
+  'lens.entocentricNote': 'Die Hauptstrahlen laufen in der Eintrittspupille zusammen, daher blicken die Ränder des Bildfelds schräg hinein, und spiegelnde Teile werden zum Rand hin dunkler.',
+
+  // Custom parts
+  'part.title': 'Eigenes Bauteil',
+  'part.backToCoin': 'Zurück zur Münze',
+  'part.readError': 'Diese Datei konnte nicht gelesen werden: {detail}',
+  'part.drop': 'Graustufen-Höhenkarte (PNG) oder Tiefen-CSV ablegen oder zum Auswählen klicken',
+  'part.relief': 'Relief',
+  'part.sectionRow': 'Schnittzeile',
+  'part.note': 'Heller = höher; transparente Pixel gehören nicht zum Bauteil. Dateien werden lokal in Ihrem Browser verarbeitet.',
+
+  // Profile editor
+  'profile.title': 'Oberflächenprofil-Editor',
+  'profile.help': 'Punkte ziehen zum Verformen, auf die Linie klicken zum Hinzufügen, Punkt doppelklicken zum Löschen.',
+  'profile.position': 'Position',
+  'profile.width': 'Breite',
+  'profile.height': 'Höhe',
+  'profile.depth': 'Tiefe',
+  'profile.insert': 'Merkmal einfügen',
+  'feature.v-scratch': 'V-Kratzer',
+  'feature.rounded-pit': 'Runde Mulde',
+  'feature.embossed': 'Geprägtes Zeichen',
+  'feature.burr': 'Grat',
+  'feature.step': 'Stufenkante',
+
+  // Case gallery
+  'cases.firstAttempt': 'Erster Versuch',
+  'cases.recommended': 'Empfohlen',
+  'cases.open': 'Im Simulator öffnen (empfohlene Beleuchtung)',
+
+  // Quiz
+  'quiz.title': 'Quiz',
+  'quiz.leave': 'Quiz verlassen',
+  'quiz.summary': 'GELÖST {solved}/{total} · {firstTry} IM ERSTEN VERSUCH',
+  'quiz.resetProgress': 'Fortschritt zurücksetzen',
+  'quiz.dragHint': 'Ziehen Sie die Lampe im Strahlengang (oder den Winkelregler) und prüfen Sie dann.',
+  'quiz.check': 'Prüfen',
+  'quiz.correct': 'Richtig!',
+  'quiz.tryAgain': 'Noch nicht. Versuchen Sie es erneut.',
+  'quiz.cameraSees': 'Kamera sieht',
+  'quiz.needed': 'Gefordert',
+  'quiz.previous': 'Zurück',
+  'quiz.next': 'Weiter',
+  'quiz.region.flat': 'Fläche',
+  'quiz.region.defect': 'Merkmal',
+  'quiz.region.backdrop': 'Hintergrund',
+  'quiz.goal.flat.bright': 'Fläche hell',
+  'quiz.goal.flat.dark': 'Fläche dunkel',
+  'quiz.goal.defect.bright': 'Merkmal hell',
+  'quiz.goal.defect.dark': 'Merkmal dunkel',
+  'quiz.goal.backdrop.bright': 'Hintergrund hell',
+  'quiz.goal.backdrop.dark': 'Hintergrund dunkel',
+  'quiz.goal.contrast': 'Merkmal {contrast} heller als Fläche',
+
+  // Lessons
+  'lessons.title': 'Geführte Lektionen',
+  'lessons.step': 'Schritt {step} / {total}',
+  'lessons.all': 'Alle Lektionen',
+  'lessons.steps_one': '{count} SCHRITT',
+  'lessons.steps_other': '{count} SCHRITTE',
+  'lessons.back': 'Zurück',
+  'lessons.next': 'Weiter',
+  'lessons.finish': 'Fertig',
+
+  // Chat
+  'chat.title': 'KI-Optikberater',
+  'chat.welcome': 'Hallo! Ich bin Ihr Optik-Tutor. Fragen Sie mich alles zu Beleuchtungswinkeln, Reflexion oder Prüfverfahren.',
+  'chat.placeholder': 'z. B.: Warum eignet sich flaches Licht für Kratzer?',
+  'chat.stop': 'Stoppen',
+  'chat.stopped': 'Abgebrochen',
+  'chat.conversations': 'Unterhaltungen',
+  'chat.new': 'Neue Unterhaltung',
+  'chat.noConversations': 'Noch keine gespeicherten Unterhaltungen',
+  'chat.untitled': 'Neue Unterhaltung',
+  'chat.rename': 'Umbenennen',
+  'chat.delete': 'Löschen',
+  'chat.messageCount_one': '{count} Nachricht',
+  'chat.messageCount_other': '{count} Nachrichten',
+  'chat.you': 'Sie',
+  'chat.exportMarkdown': 'Als Markdown exportieren',
+  'chat.exportJson': 'Als JSON exportieren',
+  'chat.attachPhoto': 'Foto des Teils anhängen (bis zu {max})',
+  'chat.removePhoto': 'Foto entfernen',
+  'chat.photoError': 'Das Foto konnte nicht gelesen werden: {detail}',
+  'chat.photoQuestion': 'Hier ist ein Foto meines Teils unter der aktuellen Beleuchtung. Was sehen Sie, und welche Beleuchtung wäre besser?',
+  'chat.action.setMode': 'Tutor hat auf {mode} umgeschaltet',
+  'chat.action.setAngle': 'Tutor hat das Licht auf {angle}° gestellt',
+  'chat.action.loadCase': 'Tutor hat den Fall „{name}“ geladen',
+  'chat.action.highlight': 'Tutor zeigt auf {target}',
+  'chat.highlight.light': 'die Lichtquelle',
+  'chat.highlight.lens': 'das Objektiv',
+  'chat.highlight.flat': 'die ebene Fläche',
+  'chat.highlight.defect': 'den Defekt',
+  'chat.highlight.captured': 'die erfassten Strahlen',
+  'chat.highlight.missed': 'die verfehlten Strahlen',
+  'chat.undo': 'Rückgängig',
+  'chat.error.auth': 'Der Tutor konnte sich nicht beim KI-Dienst anmelden. Der API-Schlüssel fehlt oder ist falsch.',
+  'chat.error.quota': 'Das Kontingent des KI-Dienstes ist vorerst aufgebraucht. Versuchen Sie es später noch einmal.',
+  'chat.error.network': 'Der Tutor ist nicht erreichbar. Prüfen Sie Ihre Verbindung und versuchen Sie es erneut.',
+  'chat.error.blocked': 'Der KI-Dienst hat die Antwort auf diese Frage verweigert. Versuchen Sie, sie anders zu formulieren.',
+  'chat.error.throttled': 'Sie fragen schneller, als der Tutor antworten kann. Versuchen Sie es in {seconds} s erneut.',
+  'chat.error.unknown': 'Beim Fragen des Tutors ist etwas schiefgegangen.',
+  'chat.retry': 'Erneut versuchen',
+  'ai.emptyResponse': 'Ich konnte gerade keine Antwort zur Optik erzeugen.',
+
+  // Added to the model's instructions, so it is written in English for every locale
+  'ai.languageInstruction': 'Reply in German. Explain concepts using standard German machine vision terminology.',
+};
+
+export default de;
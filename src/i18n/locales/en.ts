@@ -0,0 +1,325 @@
+// Source catalog: every other locale has to provide the same keys
+const en = {
+  // Shared
+  'common.reset': 'Reset',
+  'common.close': 'Close',
+  'common.fov': 'FOV',
+  'common.listSeparator': ', ',
+
+  // Page
+  'app.title': 'VisionOptics',
+  'app.subtitle': 'Illumination Logic',
+  'app.desc': 'Master the core physics of machine vision: Bright Field vs. Dark Field, and the fixtures built on them.',
+  'app.tagline': 'INTERACTIVE LEARNING',
+  'app.language': 'Language',
+  'app.lessons': 'Lessons',
+  'app.quiz': 'Quiz',
+  'app.angleLabel': 'Incidence Angle (from optical axis)',
+  'app.angleHint': 'Flat reflection inside the lens cone → bright background; outside it → dark background. You can also drag the lamp in the ray diagram.',
+  'app.angleFixtureHint': 'The first light is not a spot. Dragging the slider replaces the scene with a single angled light.',
+  'app.angleCoaxial': 'COAXIAL',
+  'app.angleGrazing': 'GRAZING',
+  'app.casesTitle': 'Real-world Application',
+  'app.casesIntro': 'Pick an inspection case to load its part, material and recommended lighting into the simulator above.',
+  'app.askAi': 'Have questions? Ask AI',
+
+  // Lighting modes
+  'mode.BRIGHT_FIELD': 'Bright Field',
+  'mode.DARK_FIELD': 'Dark Field',
+  'mode.COAXIAL': 'Coaxial',
+  'mode.DOME': 'Dome',
+  'mode.BACKLIGHT': 'Backlight',
+  'mode.LOW_ANGLE_RING': 'Low-Angle Ring',
+  'mode.PHOTOMETRIC_STEREO': 'Photometric Stereo',
+  'modeButton.BRIGHT_FIELD': 'Bright Field',
+  'modeButton.DARK_FIELD': 'Dark Field',
+  'modeButton.COAXIAL': 'Coaxial',
+  'modeButton.DOME': 'Dome',
+  'modeButton.BACKLIGHT': 'Backlight',
+  'modeButton.LOW_ANGLE_RING': 'Ring',
+  'modeButton.PHOTOMETRIC_STEREO': 'Photometric Stereo',
+  'modeInfo.BRIGHT_FIELD.title': 'Bright Field Logic',
+  'modeInfo.BRIGHT_FIELD.desc': 'Light source is high/coaxial. Light hits the flat surface and reflects directly into the lens (specular reflection), making the background bright. Defects scatter light sideways, appearing dark.',
+  'modeInfo.DARK_FIELD.title': 'Dark Field Logic',
+  'modeInfo.DARK_FIELD.desc': 'Light source is at a low angle (0-30°). Light hitting the flat surface reflects away from the lens. Only when light hits an edge or scratch does it deflect UP into the lens, making the defect shine brightly.',
+  'modeInfo.COAXIAL.title': 'Coaxial Logic',
+  'modeInfo.COAXIAL.desc': 'A side-mounted lamp is folded onto the lens axis by a 45° beam splitter, so light arrives exactly along the optical axis. Mirror-flat areas send it straight back (white); anything tilted, even slightly, throws it off-axis (black). The go-to for shiny flat parts.',
+  'modeInfo.DOME.title': 'Dome (Diffuse) Logic',
+  'modeInfo.DOME.desc': 'Light arrives from every direction of the hemisphere, like an overcast sky. Whatever way a facet tilts, some part of the dome mirrors into the lens, so bumps and glare are flattened out. Even, low-contrast images; ideal for print on curved shiny parts.',
+  'modeInfo.BACKLIGHT.title': 'Backlight Logic',
+  'modeInfo.BACKLIGHT.desc': 'The light sits behind the part, facing the lens. Light around the part goes straight into the camera (white) while the part blocks it, leaving a crisp black silhouette. You see the outline, never the surface: the most robust setup for gauging.',
+  'modeInfo.LOW_ANGLE_RING.title': 'Low-Angle Ring Logic',
+  'modeInfo.LOW_ANGLE_RING.desc': 'A ring of low-angle light hits the part from all sides at once: dark field from every direction. Flat areas throw the light away (black), and whatever way a scratch runs, one side of the ring catches on it and lights it up (white).',
+  'modeInfo.PHOTOMETRIC_STEREO.title': 'Photometric Stereo Logic',
+  'modeInfo.PHOTOMETRIC_STEREO.desc': 'Several lights from different directions fire one after another, one capture each. How bright a point looks in each capture depends on which way its surface faces, so solving Lambert\'s law per pixel gives its normal (slope) and albedo (color). Print and texture land in the albedo map, relief in the normal and curvature maps: the way to read embossed text on textured parts.',
+
+  // Ray diagram
+  'diagram.title': 'PHYSICAL RAY DIAGRAM',
+  'diagram.extraLights_one': '+{count} light',
+  'diagram.extraLights_other': '+{count} lights',
+  'diagram.entersLens': 'Enters Lens ({captured}/{total})',
+  'diagram.missesLens': 'Misses Lens',
+  'diagram.polarized': 'Polarized {angle}°',
+  'diagram.unpolarized': 'Unpolarized',
+  'diagram.analyzerPasses': 'Analyzer Passes {percent}%',
+  'diagram.acceptanceCone': 'Acceptance Cone',
+  'diagram.scatterLobe': 'Scatter Lobe',
+  'diagram.object': 'Object',
+  'diagram.camera': 'Camera (Sensor)',
+  'diagram.telecentric': 'TELECENTRIC',
+  'diagram.standard': 'STANDARD',
+  'diagram.analyzer': 'ANALYZER',
+  'diagram.flatSurface': 'Flat Surface',
+  'diagram.defect': 'Defect/Text',
+  'diagram.dragHint': 'Drag to change the incidence angle',
+  'diagram.coaxialLamp': 'Lamp + Beam Splitter',
+  'diagram.dome': 'Diffuse Dome',
+  'diagram.backlightPanel': 'Backlight Panel',
+  'diagram.ringSection': 'Ring Light (cross-section)',
+  'diagram.highAngle': 'High Angle Source',
+  'diagram.lowAngle': 'Low Angle Source',
+  'diagram.result.stereo': 'Result: Lights fire one at a time. Shading differences between the captures give each point\'s slope.',
+  'diagram.result.backlit': 'Result: Light passes AROUND the part. The part is a black silhouette.',
+  'diagram.result.brightField': 'Result: Flat reflects light IN. Defect reflects light OUT.',
+  'diagram.result.darkField': 'Result: Flat reflects light OUT. Defect catches light IN.',
+  'diagram.result.both': 'Result: Flat and defect both reflect IN. Low contrast.',
+  'diagram.result.none': 'Result: Almost no light reaches the lens. Image is dark.',
+  'diagram.outOfPlane_one': '{count} more light shines from outside the section and only counts in the camera image.',
+  'diagram.outOfPlane_other': '{count} more lights shine from outside the section and only count in the camera image.',
+
+  // Camera image
+  'image.title': 'Camera Output',
+  'image.glare': 'GLARE',
+  'image.gain': 'GAIN',
+  'image.silhouette': 'Bright Backdrop, Black Silhouette',
+  'image.allBright': 'Everything Bright, Low Contrast',
+  'image.allDark': 'Everything Dark, Low Contrast',
+  'image.brightBackground': 'Bright Background, Dark Features',
+  'image.darkBackground': 'Dark Background, Bright Features',
+  'image.bestFor': 'Best For Detecting',
+  'useCase.BRIGHT_FIELD.flatness': 'Flatness inspection',
+  'useCase.BRIGHT_FIELD.pits': 'Dark spots / Deep pits',
+  'useCase.BRIGHT_FIELD.presence': 'Presence/Absence',
+  'useCase.BRIGHT_FIELD.scratches': 'Tiny surface scratches',
+  'useCase.DARK_FIELD.scratches': 'Surface Scratches',
+  'useCase.DARK_FIELD.text': 'Embossed/Engraved Text',
+  'useCase.DARK_FIELD.edges': 'Edge defects',
+  'useCase.DARK_FIELD.color': 'Color changes on flat surfaces',
+  'useCase.COAXIAL.marks': 'Marks on mirror-like parts (wafers, polished metal)',
+  'useCase.COAXIAL.dents': 'Dents and pits on flat reflective faces',
+  'useCase.COAXIAL.even': 'Even lighting with no side shadows',
+  'useCase.COAXIAL.curved': 'Curved or matte surfaces',
+  'useCase.DOME.curved': 'Curved, shiny parts (cans, balls, foil)',
+  'useCase.DOME.packaging': 'Print on crinkled packaging',
+  'useCase.DOME.glare': 'Hiding surface texture and glare',
+  'useCase.DOME.shallow': 'Shallow scratches and dents',
+  'useCase.BACKLIGHT.outline': 'Outline gauging / dimensions',
+  'useCase.BACKLIGHT.holes': 'Holes, gaps and presence',
+  'useCase.BACKLIGHT.fill': 'Fill level in transparent containers',
+  'useCase.BACKLIGHT.top': 'Anything on the top surface',
+  'useCase.LOW_ANGLE_RING.scratches': 'Scratches in every direction',
+  'useCase.LOW_ANGLE_RING.stamped': 'Embossed / stamped characters',
+  'useCase.LOW_ANGLE_RING.dust': 'Particles and dust on flat parts',
+  'useCase.LOW_ANGLE_RING.print': 'Printed marks without relief',
+  'useCase.PHOTOMETRIC_STEREO.embossed': 'Embossed text on textured surfaces',
+  'useCase.PHOTOMETRIC_STEREO.albedo': 'Separating relief from print (albedo)',
+  'useCase.PHOTOMETRIC_STEREO.curvature': 'Shallow dents and bulges (curvature)',
+  'useCase.PHOTOMETRIC_STEREO.moving': 'Moving parts and glossy surfaces',
+
+  // Photometric stereo
+  'stereo.captures': 'Captures, One Light Each',
+  'stereo.reconstruction': 'Reconstruction',
+  'stereo.normals': 'Normals',
+  'stereo.albedo': 'Albedo',
+  'stereo.curvature': 'Curvature',
+  'stereo.needLights': 'Needs at least {count} lights from different directions, not all in one plane, to solve for the normals.',
+  'stereo.note': 'Each pixel\'s brightness changes with the light direction. Solving Lambert\'s law separates the slope (normal) from the color (albedo). Highlights break the Lambertian assumption, so glossy materials reconstruct poorly.',
+
+  // Light sources
+  'lights.title': 'Light Sources',
+  'lights.add': 'Add Light',
+  'lights.turnOff': 'Turn off',
+  'lights.turnOn': 'Turn on',
+  'lights.remove': 'Remove',
+  'lights.angle': 'Angle',
+  'lights.azimuth': 'Azimuth',
+  'lights.intensity': 'Intensity',
+  'lights.none': 'No lights: the camera sees nothing.',
+  'lights.note': 'The camera adds up the light from every source. Azimuth 0° shines from the diagram\'s left and 180° from its right; other azimuths leave the section plane and only show in the camera image.',
+  'fixture.spot': 'Spot',
+  'fixture.coaxial': 'Coaxial',
+  'fixture.ring': 'Ring',
+  'fixture.dome': 'Dome',
+  'fixture.backlight': 'Backlight',
+  'combo.coaxialRing': 'Coaxial + Ring',
+  'combo.quadrant': 'Quadrant (4 spots)',
+
+  // Materials
+  'material.title': 'Surface Material',
+  'material.specular': 'SPECULAR F0',
+  'material.diffuse': 'DIFFUSE',
+  'material.lobe': 'LOBE',
+  'material.polished-metal': 'Polished Metal',
+  'material.polished-metal.hint': 'Near-perfect mirror',
+  'material.brushed-metal': 'Brushed Metal',
+  'material.brushed-metal.hint': 'Wide glossy lobe',
+  'material.matte-plastic': 'Matte Plastic',
+  'material.matte-plastic.hint': 'Mostly diffuse',
+  'material.painted': 'Painted',
+  'material.painted.hint': 'Red base under a glossy clear coat',
+  'material.ceramic': 'Ceramic',
+  'material.ceramic.hint': 'Bright diffuse, thin glaze highlight',
+  'material.glass': 'Glass',
+  'material.glass.hint': '4% reflection, rest passes through',
+
+  // Light color and filters
+  'spectrum.title': 'Light Color & Filter',
+  'spectrum.wavelength': 'EFFECTIVE λ',
+  'spectrum.signal': 'SIGNAL',
+  'spectrum.blocked': 'The filter blocks the light\'s wavelength, so almost nothing reaches the sensor.',
+  'spectrum.note': 'A mono camera only records brightness: light matching a mark\'s color makes it vanish, the complementary color turns it dark. Short wavelengths scatter more off fine scratches.',
+  'lightColor.white': 'White',
+  'lightColor.red': 'Red',
+  'lightColor.green': 'Green',
+  'lightColor.blue': 'Blue',
+  'lightColor.ir': 'IR',
+  'lightColor.uv': 'UV',
+  'filter.none': 'No Filter',
+  'filter.red': 'Red BP',
+  'filter.green': 'Green BP',
+  'filter.blue': 'Blue BP',
+  'filter.ir': 'IR BP',
+  'filter.uv': 'UV BP',
+
+  // Polarizers
+  'polarization.title': 'Polarizers',
+  'polarization.polarizer': 'Polarizer (on lights)',
+  'polarization.analyzer': 'Analyzer (on lens)',
+  'polarization.cross': 'Cross',
+  'polarization.axis': 'Axis',
+  'polarization.crossing': 'CROSSING',
+  'polarization.glarePassed': 'GLARE PASSED',
+  'polarization.diffusePassed': 'DIFFUSE PASSED',
+  'polarization.note': 'A mirror reflection keeps the light\'s polarization, so an analyzer turned across the polarizer blocks the glare. Light scattered back out of the material is depolarized and half of it always gets through.',
+
+  // Lens
+  'lens.title': 'Camera & Lens',
+  'lens.entocentric': 'Standard (Entocentric)',
+  'lens.telecentric': 'Telecentric',
+  'lens.focalLength': 'Focal Length',
+  'lens.workingDistance': 'Working Distance',
+  'lens.aperture': 'Aperture',
+  'lens.sensorSize': 'Sensor Size',
+  'lens.magnification': 'MAG',
+  'lens.fieldAngle': 'FIELD ANGLE',
+  'lens.telecentricNote': 'Chief rays stay parallel to the axis, so every point of the field sees reflections at the same angle: even bright field on mirror-like parts and distortion-free gauging.',
+  'lens.entocentricNote': 'Chief rays converge on the entrance pupil, so the edges of the field look in at an angle and mirror-like parts darken toward the edges.',
+
+  // Custom parts
+  'part.title': 'Your Own Part',
+  'part.backToCoin': 'Back to Coin',
+  'part.readError': 'Could not read this file: {detail}',
+  'part.drop': 'Drop a grayscale heightmap (PNG) or a depth CSV, or click to browse',
+  'part.relief': 'Relief',
+  'part.sectionRow': 'Section Row',
+  'part.note': 'Brighter = higher; transparent pixels are not part of the part. Files are processed locally in your browser.',
+
+  // Profile editor
+  'profile.title': 'Surface Profile Editor',
+  'profile.help': 'Drag vertices to reshape, click the line to add a vertex, double-click a vertex to delete it.',
+  'profile.position': 'Position',
+  'profile.width': 'Width',
+  'profile.height': 'Height',
+  'profile.depth': 'Depth',
+  'profile.insert': 'Insert Feature',
+  'feature.v-scratch': 'V-Scratch',
+  'feature.rounded-pit': 'Rounded Pit',
+  'feature.embossed': 'Embossed Char',
+  'feature.burr': 'Burr',
+  'feature.step': 'Step Edge',
+
+  // Case gallery
+  'cases.firstAttempt': 'First Attempt',
+  'cases.recommended': 'Recommended',
+  'cases.open': 'Open in Simulator (recommended lighting)',
+
+  // Quiz
+  'quiz.title': 'Quiz',
+  'quiz.leave': 'Leave quiz',
+  'quiz.summary': 'SOLVED {solved}/{total} · {firstTry} ON FIRST TRY',
+  'quiz.resetProgress': 'Reset Progress',
+  'quiz.dragHint': 'Drag the lamp in the ray diagram (or the angle slider), then check.',
+  'quiz.check': 'Check',
+  'quiz.correct': 'Correct!',
+  'quiz.tryAgain': 'Not yet. Try again.',
+  'quiz.cameraSees': 'Camera sees',
+  'quiz.needed': 'Needed',
+  'quiz.previous': 'Previous',
+  'quiz.next': 'Next',
+  'quiz.region.flat': 'Face',
+  'quiz.region.defect': 'Feature',
+  'quiz.region.backdrop': 'Background',
+  'quiz.goal.flat.bright': 'face bright',
+  'quiz.goal.flat.dark': 'face dark',
+  'quiz.goal.defect.bright': 'feature bright',
+  'quiz.goal.defect.dark': 'feature dark',
+  'quiz.goal.backdrop.bright': 'background bright',
+  'quiz.goal.backdrop.dark': 'background dark',
+  'quiz.goal.contrast': 'feature {contrast} above face',
+
+  // Lessons
+  'lessons.title': 'Guided Lessons',
+  'lessons.step': 'Step {step} / {total}',
+  'lessons.all': 'All lessons',
+  'lessons.steps_one': '{count} STEP',
+  'lessons.steps_other': '{count} STEPS',
+  'lessons.back': 'Back',
+  'lessons.next': 'Next',
+  'lessons.finish': 'Finish',
+
+  // Chat
+  'chat.title': 'AI Optics Consultant',
+  'chat.welcome': 'Hi! I\'m your Optics Tutor. Ask me anything about lighting angles, reflection, or detection techniques.',
+  'chat.placeholder': 'Ex: Why is low angle good for scratches?',
+  'chat.stop': 'Stop',
+  'chat.stopped': 'Stopped',
+  'chat.conversations': 'Conversations',
+  'chat.new': 'New conversation',
+  'chat.noConversations': 'No saved conversations yet',
+  'chat.untitled': 'New conversation',
+  'chat.rename': 'Rename',
+  'chat.delete': 'Delete',
+  'chat.messageCount_one': '{count} message',
+  'chat.messageCount_other': '{count} messages',
+  'chat.you': 'You',
+  'chat.exportMarkdown': 'Export as Markdown',
+  'chat.exportJson': 'Export as JSON',
+  'chat.attachPhoto': 'Attach a photo of your part (up to {max})',
+  'chat.removePhoto': 'Remove photo',
+  'chat.photoError': 'Could not read the photo: {detail}',
+  'chat.photoQuestion': 'Here is a photo of my part under the current lighting. What do you see, and which lighting would work better?',
+  'chat.action.setMode': 'Tutor switched to {mode}',
+  'chat.action.setAngle': 'Tutor set the light to {angle}°',
+  'chat.action.loadCase': 'Tutor loaded the case “{name}”',
+  'chat.action.highlight': 'Tutor pointed at {target}',
+  'chat.highlight.light': 'the light',
+  'chat.highlight.lens': 'the lens',
+  'chat.highlight.flat': 'the flat surface',
+  'chat.highlight.defect': 'the defect',
+  'chat.highlight.captured': 'the captured rays',
+  'chat.highlight.missed': 'the missed rays',
+  'chat.undo': 'Undo',
+  'chat.error.auth': 'The tutor could not sign in to its AI service. The API key is missing or wrong.',
+  'chat.error.quota': 'The tutor\'s AI service has used up its quota for now. Try again in a while.',
+  'chat.error.network': 'The tutor could not be reached. Check your connection and try again.',
+  'chat.error.blocked': 'The AI service declined to answer this question. Try rephrasing it.',
+  'chat.error.throttled': 'You are asking faster than the tutor can keep up. Try again in {seconds} s.',
+  'chat.error.unknown': 'Something went wrong while asking the tutor.',
+  'chat.retry': 'Try again',
+  'ai.emptyResponse': 'I couldn\'t generate a response regarding optics at the moment.',
+
+  // Added to the model's instructions, so it is written in English for every locale
+  'ai.languageInstruction': 'Reply in English.',
+};
+
+export default en;
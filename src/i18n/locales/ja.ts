@@ -0,0 +1,322 @@
+import type { Messages } from '../index';
+
+const ja: Messages = {
+  // Shared
+  'common.reset': 'リセット',
+  'common.close': '閉じる',
+  'common.fov': '視野',
+  'common.listSeparator': '、',
+
+  // Page
+  'app.title': 'VisionOptics',
+  'app.subtitle': '照明のロジック',
+  'app.desc': 'マシンビジョン照明の基本となる物理を学びましょう：明視野と暗視野、そしてそれを応用した各種照明。',
+  'app.tagline': 'インタラクティブ学習',
+  'app.language': '言語',
+  'app.lessons': 'レッスン',
+  'app.quiz': 'クイズ',
+  'app.angleLabel': '入射角 (光軸からの角度)',
+  'app.angleHint': '平面の反射がレンズの受光コーン内 → 背景は明るく、コーン外 → 背景は暗くなります。光線図の光源をドラッグしても変更できます。',
+  'app.angleFixtureHint': '1 番目の光源はスポット照明ではありません。スライダーを動かすと、角度付きの単一光源に置き換わります。',
+  'app.angleCoaxial': '同軸',
+  'app.angleGrazing': '斜光',
+  'app.casesTitle': '実際の応用事例',
+  'app.casesIntro': '検査事例を選ぶと、そのワーク・材質・推奨照明が上のシミュレーターに読み込まれます。',
+  'app.askAi': '質問がありますか？AI に聞いてみましょう',
+
+  // Lighting modes
+  'mode.BRIGHT_FIELD': '明視野',
+  'mode.DARK_FIELD': '暗視野',
+  'mode.COAXIAL': '同軸照明',
+  'mode.DOME': 'ドーム照明',
+  'mode.BACKLIGHT': 'バックライト',
+  'mode.LOW_ANGLE_RING': 'ローアングルリング照明',
+  'mode.PHOTOMETRIC_STEREO': '照度差ステレオ',
+  'modeButton.BRIGHT_FIELD': '明視野',
+  'modeButton.DARK_FIELD': '暗視野',
+  'modeButton.COAXIAL': '同軸',
+  'modeButton.DOME': 'ドーム',
+  'modeButton.BACKLIGHT': 'バックライト',
+  'modeButton.LOW_ANGLE_RING': 'リング',
+  'modeButton.PHOTOMETRIC_STEREO': '照度差ステレオ',
+  'modeInfo.BRIGHT_FIELD.title': '明視野のしくみ',
+  'modeInfo.BRIGHT_FIELD.desc': '光源は高い位置 (同軸付近) にあります。平らな面に当たった光はそのままレンズに正反射し、背景が明るく写ります。傷などの欠陥は光を横に散乱させるため、暗く写ります。',
+  'modeInfo.DARK_FIELD.title': '暗視野のしくみ',
+  'modeInfo.DARK_FIELD.desc': '光源は低い角度 (0〜30°) にあります。平らな面に当たった光はレンズから外れる方向へ反射します。エッジや傷に当たったときだけ光が上向きにレンズへ入り、欠陥が明るく光ります。',
+  'modeInfo.COAXIAL.title': '同軸照明のしくみ',
+  'modeInfo.COAXIAL.desc': '側面の光源を 45° のビームスプリッターで折り返し、光をレンズの光軸に沿って正確に照射します。鏡のように平らな部分は光をそのまま返し (白)、わずかでも傾いた部分は光軸から外れます (黒)。光沢のある平らなワークの定番です。',
+  'modeInfo.DOME.title': 'ドーム (拡散) 照明のしくみ',
+  'modeInfo.DOME.desc': '曇り空のように、半球のあらゆる方向から光が届きます。面がどちらに傾いても、ドームのどこかがレンズへ正反射するため、凹凸や反射が目立たなくなります。均一で低コントラストな画像になり、曲面の光沢部品上の印字に最適です。',
+  'modeInfo.BACKLIGHT.title': 'バックライトのしくみ',
+  'modeInfo.BACKLIGHT.desc': '光源はワークの背後にあり、レンズに向いています。ワークの周囲の光はそのままカメラに入り (白)、ワークが光を遮ってくっきりした黒いシルエットになります。見えるのは輪郭だけで表面は見えません。寸法計測に最も安定した構成です。',
+  'modeInfo.LOW_ANGLE_RING.title': 'ローアングルリング照明のしくみ',
+  'modeInfo.LOW_ANGLE_RING.desc': '低角度のリング光が全方向から同時にワークを照らす、全方位の暗視野です。平らな部分は光を逃がし (黒)、傷がどの向きに走っていても、リングのどこかの光が引っかかって明るく光ります (白)。',
+  'modeInfo.PHOTOMETRIC_STEREO.title': '照度差ステレオのしくみ',
+  'modeInfo.PHOTOMETRIC_STEREO.desc': '方向の異なる複数の光源を順番に点灯し、1 灯ごとに 1 枚撮像します。各画像での明るさは面の向きによって変わるため、画素ごとにランバートの法則を解くと法線 (傾き) とアルベド (色) が求まります。印字や模様はアルベド画像に、凹凸は法線・曲率画像に現れます。テクスチャのある面の刻印文字を読む方法です。',
+
+  // Ray diagram
+  'diagram.title': '光線図',
+  'diagram.extraLights_other': '+{count} 灯',
+  'diagram.entersLens': 'レンズに入射 ({captured}/{total})',
+  'diagram.missesLens': 'レンズ外',
+  'diagram.polarized': '偏光 {angle}°',
+  'diagram.unpolarized': '無偏光',
+  'diagram.analyzerPasses': '検光子の透過率 {percent}%',
+  'diagram.acceptanceCone': '受光コーン',
+  'diagram.scatterLobe': '散乱ローブ',
+  'diagram.object': 'ワーク',
+  'diagram.camera': 'カメラ (センサー)',
+  'diagram.telecentric': 'テレセントリック',
+  'diagram.standard': '標準レンズ',
+  'diagram.analyzer': '検光子',
+  'diagram.flatSurface': '平面',
+  'diagram.defect': '欠陥/文字',
+  'diagram.dragHint': 'ドラッグして入射角を変更',
+  'diagram.coaxialLamp': '光源 + ビームスプリッター',
+  'diagram.dome': '拡散ドーム',
+  'diagram.backlightPanel': 'バックライトパネル',
+  'diagram.ringSection': 'リング照明 (断面)',
+  'diagram.highAngle': '同軸/高角度光源',
+  'diagram.lowAngle': '低角度光源',
+  'diagram.result.stereo': '結果：光源を 1 灯ずつ点灯し、画像間の陰影の違いから各点の傾きを求めます。',
+  'diagram.result.backlit': '結果：光はワークの周囲を通過し、ワークは黒いシルエットになります。',
+  'diagram.result.brightField': '結果：平面は光をレンズへ反射 (白)、欠陥は光を外へ反射 (黒)。',
+  'diagram.result.darkField': '結果：平面は光を外へ反射 (黒)、欠陥は光をレンズへ引き込みます (白)。',
+  'diagram.result.both': '結果：平面も欠陥もレンズへ反射し、コントラストが低くなります。',
+  'diagram.result.none': '結果：レンズに届く光がほとんどなく、画像は暗くなります。',
+  'diagram.outOfPlane_other': 'ほかに {count} 灯が断面の外から照らしており、カメラ画像にのみ反映されます。',
+
+  // Camera image
+  'image.title': 'カメラ出力',
+  'image.glare': '反射',
+  'image.gain': 'ゲイン',
+  'image.silhouette': '明るい背景、黒いシルエット',
+  'image.allBright': '全体が明るく、低コントラスト',
+  'image.allDark': '全体が暗く、低コントラスト',
+  'image.brightBackground': '明るい背景、暗い特徴',
+  'image.darkBackground': '暗い背景、明るい特徴',
+  'image.bestFor': '得意な検査',
+  'useCase.BRIGHT_FIELD.flatness': '平面度の検査',
+  'useCase.BRIGHT_FIELD.pits': '黒点 / 深い凹み',
+  'useCase.BRIGHT_FIELD.presence': '有無検査',
+  'useCase.BRIGHT_FIELD.scratches': '微細な表面の傷',
+  'useCase.DARK_FIELD.scratches': '表面の傷',
+  'useCase.DARK_FIELD.text': '刻印・彫刻文字',
+  'useCase.DARK_FIELD.edges': 'エッジの欠陥',
+  'useCase.DARK_FIELD.color': '平面上の色の変化',
+  'useCase.COAXIAL.marks': '鏡面ワーク上のマーク (ウェハー、研磨金属)',
+  'useCase.COAXIAL.dents': '平らな反射面の凹み',
+  'useCase.COAXIAL.even': '横方向の影のない均一な照明',
+  'useCase.COAXIAL.curved': '曲面やマットな表面',
+  'useCase.DOME.curved': '曲面の光沢部品 (缶、球、箔)',
+  'useCase.DOME.packaging': 'しわのある包装上の印字',
+  'useCase.DOME.glare': '表面の模様や反射の抑制',
+  'useCase.DOME.shallow': '浅い傷や凹み',
+  'useCase.BACKLIGHT.outline': '外形・寸法計測',
+  'useCase.BACKLIGHT.holes': '穴、隙間、有無',
+  'useCase.BACKLIGHT.fill': '透明容器の液面',
+  'useCase.BACKLIGHT.top': '上面のあらゆる特徴',
+  'useCase.LOW_ANGLE_RING.scratches': 'あらゆる方向の傷',
+  'useCase.LOW_ANGLE_RING.stamped': '浮き彫り・刻印文字',
+  'useCase.LOW_ANGLE_RING.dust': '平面上の異物やほこり',
+  'useCase.LOW_ANGLE_RING.print': '凹凸のない印字',
+  'useCase.PHOTOMETRIC_STEREO.embossed': 'テクスチャ面上の刻印文字',
+  'useCase.PHOTOMETRIC_STEREO.albedo': '凹凸と印字の分離 (アルベド)',
+  'useCase.PHOTOMETRIC_STEREO.curvature': '浅い凹みや膨らみ (曲率)',
+  'useCase.PHOTOMETRIC_STEREO.moving': '移動するワークや光沢面',
+
+  // Photometric stereo
+  'stereo.captures': '1 灯ずつの撮像',
+  'stereo.reconstruction': '復元結果',
+  'stereo.normals': '法線',
+  'stereo.albedo': 'アルベド',
+  'stereo.curvature': '曲率',
+  'stereo.needLights': '法線を求めるには、同一平面上にない異なる方向の光源が {count} 灯以上必要です。',
+  'stereo.note': '各画素の明るさは光の方向によって変わります。ランバートの法則を解くと、傾き (法線) と色 (アルベド) を分離できます。ハイライトはランバート反射の前提を崩すため、光沢のある材質ではうまく復元できません。',
+
+  // Light sources
+  'lights.title': '光源',
+  'lights.add': '光源を追加',
+  'lights.turnOff': 'オフにする',
+  'lights.turnOn': 'オンにする',
+  'lights.remove': '削除',
+  'lights.angle': '入射角',
+  'lights.azimuth': '方位角',
+  'lights.intensity': '強度',
+  'lights.none': '光源がありません：カメラには何も写りません。',
+  'lights.note': 'カメラにはすべての光源の光が足し合わされて写ります。方位角 0° は光線図の左から、180° は右から照らします。それ以外の方位角の光は断面の外にあり、カメラ画像にのみ現れます。',
+  'fixture.spot': 'スポット',
+  'fixture.coaxial': '同軸',
+  'fixture.ring': 'リング',
+  'fixture.dome': 'ドーム',
+  'fixture.backlight': 'バックライト',
+  'combo.coaxialRing': '同軸 + リング',
+  'combo.quadrant': '4 方向 (スポット 4 灯)',
+
+  // Materials
+  'material.title': '表面の材質',
+  'material.specular': '鏡面反射率 F0',
+  'material.diffuse': '拡散反射率',
+  'material.lobe': 'ローブ幅',
+  'material.polished-metal': '研磨金属',
+  'material.polished-metal.hint': 'ほぼ完全な鏡面',
+  'material.brushed-metal': 'ヘアライン金属',
+  'material.brushed-metal.hint': '広い光沢ローブ',
+  'material.matte-plastic': 'マット樹脂',
+  'material.matte-plastic.hint': 'ほぼ拡散反射',
+  'material.painted': '塗装面',
+  'material.painted.hint': '赤い下地 + 光沢クリア塗装',
+  'material.ceramic': 'セラミック',
+  'material.ceramic.hint': '明るい拡散反射 + 薄い釉薬のハイライト',
+  'material.glass': 'ガラス',
+  'material.glass.hint': '反射は約 4%、残りは透過',
+
+  // Light color and filters
+  'spectrum.title': '光の色とフィルター',
+  'spectrum.wavelength': '実効波長',
+  'spectrum.signal': '信号',
+  'spectrum.blocked': 'フィルターが光源の波長を遮断しているため、センサーにはほとんど光が届きません。',
+  'spectrum.note': 'モノクロカメラは明るさしか記録しません。マークと同じ色の光ではマークが消え、補色の光では黒く写ります。短い波長ほど微細な傷でよく散乱します。',
+  'lightColor.white': '白色',
+  'lightColor.red': '赤色',
+  'lightColor.green': '緑色',
+  'lightColor.blue': '青色',
+  'lightColor.ir': '赤外',
+  'lightColor.uv': '紫外',
+  'filter.none': 'フィルターなし',
+  'filter.red': '赤 BP',
+  'filter.green': '緑 BP',
+  'filter.blue': '青 BP',
+  'filter.ir': '赤外 BP',
+  'filter.uv': '紫外 BP',
+
+  // Polarizers
+  'polarization.title': '偏光フィルター',
+  'polarization.polarizer': '偏光子 (光源側)',
+  'polarization.analyzer': '検光子 (レンズ側)',
+  'polarization.cross': '直交',
+  'polarization.axis': '透過軸',
+  'polarization.crossing': '交差角',
+  'polarization.glarePassed': '正反射の透過',
+  'polarization.diffusePassed': '拡散光の透過',
+  'polarization.note': '鏡面反射は光の偏光を保つため、検光子を偏光子と直交させると反射を遮断できます。材料内部で散乱して戻った光は偏光が解けており、常に半分が透過します。',
+
+  // Lens
+  'lens.title': 'カメラとレンズ',
+  'lens.entocentric': '標準 (エントセントリック)',
+  'lens.telecentric': 'テレセントリック',
+  'lens.focalLength': '焦点距離',
+  'lens.workingDistance': 'ワーキングディスタンス',
+  'lens.aperture': '絞り',
+  'lens.sensorSize': 'センサーサイズ',
+  'lens.magnification': '倍率',
+  'lens.fieldAngle': '画角',
+  'lens.telecentricNote': '主光線が光軸と平行なため、視野内のどの点でも同じ角度で反射を捉えます。鏡面ワークでも均一な明視野が得られ、歪みのない寸法計測ができます。',
+  'lens.entocentricNote': '主光線が入射瞳に集まるため、視野の端は斜めから見ることになり、鏡面ワークは端に向かって暗くなります。',
+
+  // Custom parts
+  'part.title': 'オリジナルのワーク',
+  'part.backToCoin': 'コインに戻す',
+  'part.readError': 'このファイルを読み込めませんでした：{detail}',
+  'part.drop': 'グレースケールの高さマップ (PNG) または深さ CSV をドロップ、またはクリックして選択',
+  'part.relief': '凹凸の高さ',
+  'part.sectionRow': '断面の行',
+  'part.note': '明るいほど高くなります。透明な画素はワークに含まれません。ファイルはブラウザ内でのみ処理されます。',
+
+  // Profile editor
+  'profile.title': '表面プロファイルエディター',
+  'profile.help': '頂点をドラッグして形を変え、線をクリックして頂点を追加、頂点をダブルクリックして削除します。',
+  'profile.position': '位置',
+  'profile.width': '幅',
+  'profile.height': '高さ',
+  'profile.depth': '深さ',
+  'profile.insert': '特徴を挿入',
+  'feature.v-scratch': 'V 字の傷',
+  'feature.rounded-pit': '丸い凹み',
+  'feature.embossed': '浮き出し文字',
+  'feature.burr': 'バリ',
+  'feature.step': '段差',
+
+  // Case gallery
+  'cases.firstAttempt': 'よくある最初の設定',
+  'cases.recommended': '推奨',
+  'cases.open': 'シミュレーターで開く (推奨照明)',
+
+  // Quiz
+  'quiz.title': 'クイズ',
+  'quiz.leave': 'クイズを終了',
+  'quiz.summary': '正解 {solved}/{total} · うち {firstTry} 問は一回で正解',
+  'quiz.resetProgress': '進捗をリセット',
+  'quiz.dragHint': '光線図の光源 (または入射角スライダー) をドラッグしてから確認してください。',
+  'quiz.check': '確認',
+  'quiz.correct': '正解！',
+  'quiz.tryAgain': 'まだです。もう一度試してみましょう。',
+  'quiz.cameraSees': 'カメラの値',
+  'quiz.needed': '条件',
+  'quiz.previous': '前へ',
+  'quiz.next': '次へ',
+  'quiz.region.flat': '表面',
+  'quiz.region.defect': '特徴',
+  'quiz.region.backdrop': '背景',
+  'quiz.goal.flat.bright': '表面が明るい',
+  'quiz.goal.flat.dark': '表面が暗い',
+  'quiz.goal.defect.bright': '特徴が明るい',
+  'quiz.goal.defect.dark': '特徴が暗い',
+  'quiz.goal.backdrop.bright': '背景が明るい',
+  'quiz.goal.backdrop.dark': '背景が暗い',
+  'quiz.goal.contrast': '特徴が表面より {contrast} 以上明るい',
+
+  // Lessons
+  'lessons.title': 'ガイド付きレッスン',
+  'lessons.step': 'ステップ {step} / {total}',
+  'lessons.all': 'レッスン一覧',
+  'lessons.steps_other': '{count} ステップ',
+  'lessons.back': '戻る',
+  'lessons.next': '次へ',
+  'lessons.finish': '完了',
+
+  // Chat
+  'chat.title': 'AI 光学コンサルタント',
+  'chat.welcome': 'こんにちは！光学チューターです。照明の角度、反射、検出手法について何でも聞いてください。',
+  'chat.placeholder': '例：なぜ低角度照明は傷の検出に向いているの？',
+  'chat.stop': '停止',
+  'chat.stopped': '停止しました',
+  'chat.conversations': '会話履歴',
+  'chat.new': '新しい会話',
+  'chat.noConversations': '保存された会話はまだありません',
+  'chat.untitled': '新しい会話',
+  'chat.rename': '名前を変更',
+  'chat.delete': '削除',
+  'chat.messageCount_other': '{count} 件のメッセージ',
+  'chat.you': 'あなた',
+  'chat.exportMarkdown': 'Markdown で書き出す',
+  'chat.exportJson': 'JSON で書き出す',
+  'chat.attachPhoto': '部品の写真を添付（最大 {max} 枚）',
+  'chat.removePhoto': '写真を削除',
+  'chat.photoError': '写真を読み込めませんでした：{detail}',
+  'chat.photoQuestion': '現在の照明で撮った部品の写真です。何が見えますか？どの照明のほうが適していますか？',
+  'chat.action.setMode': 'チューターが{mode}に切り替えました',
+  'chat.action.setAngle': 'チューターが照明角度を {angle}° にしました',
+  'chat.action.loadCase': 'チューターがケース「{name}」を読み込みました',
+  'chat.action.highlight': 'チューターが{target}を示しました',
+  'chat.highlight.light': '光源',
+  'chat.highlight.lens': 'レンズ',
+  'chat.highlight.flat': '平らな面',
+  'chat.highlight.defect': '欠陥',
+  'chat.highlight.captured': 'レンズに入る光線',
+  'chat.highlight.missed': 'レンズに入らない光線',
+  'chat.undo': '元に戻す',
+  'chat.error.auth': 'チューターが AI サービスにログインできませんでした。API キーがないか、間違っています。',
+  'chat.error.quota': 'チューターの AI サービスの利用上限に達しました。しばらくしてからもう一度お試しください。',
+  'chat.error.network': 'チューターに接続できませんでした。接続を確認してもう一度お試しください。',
+  'chat.error.blocked': 'AI サービスがこの質問への回答を控えました。言い方を変えてみてください。',
+  'chat.error.throttled': '質問のペースが速すぎます。{seconds} 秒後にもう一度お試しください。',
+  'chat.error.unknown': 'チューターへの質問中に問題が発生しました。',
+  'chat.retry': '再試行',
+  'ai.emptyResponse': '今は光学に関する回答を生成できませんでした。',
+
+  // Added to the model's instructions, so it is written in English for every locale
+  'ai.languageInstruction': 'Reply in Japanese. Explain concepts using standard Japanese machine vision terminology.',
+};
+
+export default ja;
@@ -0,0 +1,322 @@
+import type { Messages } from '../index';
+
+const zh: Messages = {
+  // Shared
+  'common.reset': '重置',
+  'common.close': '关闭',
+  'common.fov': '视野',
+  'common.listSeparator': '，',
+
+  // Page
+  'app.title': '机器视觉光学',
+  'app.subtitle': '照明的核心逻辑',
+  'app.desc': '掌握机器视觉打光最底层的物理逻辑：亮视野 vs 暗视野，以及由此衍生的各类光源。',
+  'app.tagline': '互动学习',
+  'app.language': '语言',
+  'app.lessons': '课程',
+  'app.quiz': '自测',
+  'app.angleLabel': '入射角 (与光轴夹角)',
+  'app.angleHint': '镜头接收锥内的反射 → 背景亮；超出接收锥 → 背景暗。也可以直接拖动光路图中的光源。',
+  'app.angleFixtureHint': '第一个光源不是点光源，拖动滑块将替换为单个点光源。',
+  'app.angleCoaxial': '同轴',
+  'app.angleGrazing': '掠射',
+  'app.casesTitle': '实际应用案例',
+  'app.casesIntro': '选择一个检测案例，把它的工件、材料和推荐打光载入上方的模拟器。',
+  'app.askAi': '遇到问题？问问 AI 助教',
+
+  // Lighting modes
+  'mode.BRIGHT_FIELD': '亮视野',
+  'mode.DARK_FIELD': '暗视野',
+  'mode.COAXIAL': '同轴光',
+  'mode.DOME': '穹顶光',
+  'mode.BACKLIGHT': '背光',
+  'mode.LOW_ANGLE_RING': '低角度环形光',
+  'mode.PHOTOMETRIC_STEREO': '光度立体',
+  'modeButton.BRIGHT_FIELD': '亮视野',
+  'modeButton.DARK_FIELD': '暗视野',
+  'modeButton.COAXIAL': '同轴光',
+  'modeButton.DOME': '穹顶光',
+  'modeButton.BACKLIGHT': '背光',
+  'modeButton.LOW_ANGLE_RING': '环形光',
+  'modeButton.PHOTOMETRIC_STEREO': '光度立体',
+  'modeInfo.BRIGHT_FIELD.title': '亮视野 (Bright Field)',
+  'modeInfo.BRIGHT_FIELD.desc': '原理：光源位于相机与物体之间。光线垂直照射到平坦表面后，直接反射进入镜头（镜面反射），因此背景是白色的。而凹凸不平的特征（如刻字、划痕）会将光线散射到侧面，无法进入镜头，呈现为黑色。',
+  'modeInfo.DARK_FIELD.title': '暗视野 (Dark Field) / 低角度照明',
+  'modeInfo.DARK_FIELD.desc': '原理：光源以极低的角度（通常 0°~30°）照射物体。大部分光线照射到平坦表面后，像打水漂一样反射离开，不进镜头。只有遇到突起、边缘、划痕时，光线才会发生改变方向，反射进入镜头。背景呈黑色，特征呈亮白色。',
+  'modeInfo.COAXIAL.title': '同轴光 (Coaxial)',
+  'modeInfo.COAXIAL.desc': '原理：光源装在侧面，经 45° 分光镜折转后沿镜头光轴垂直向下照射。镜面般的平坦区域把光原路反射回镜头，呈白色；任何倾斜的凹坑、印字都会把光反射偏离光轴，呈黑色。适合高反光的平整工件。',
+  'modeInfo.DOME.title': '穹顶光 (Dome / 漫射)',
+  'modeInfo.DOME.desc': '原理：光从半球内壁的各个方向均匀射来，就像阴天。无论表面朝哪个方向倾斜，总有一部分穹顶的光能被镜面反射进镜头，所以凹凸和反光都被“抹平”，画面均匀但对比度低。适合弯曲反光件上的印刷。',
+  'modeInfo.BACKLIGHT.title': '背光 (Backlight)',
+  'modeInfo.BACKLIGHT.desc': '原理：光源放在物体背后，正对镜头。物体周围的光直接射入镜头（白色），物体本身挡住光线，呈现清晰的黑色剪影。只看轮廓，不看表面，是尺寸测量最稳定的打光方式。',
+  'modeInfo.LOW_ANGLE_RING.title': '低角度环形光 (Low-Angle Ring)',
+  'modeInfo.LOW_ANGLE_RING.desc': '原理：环形光以低角度从四周同时照射，相当于各个方向的暗视野叠加。平坦面把光反射走（黑色），而无论划痕朝哪个方向，总有一侧的光被它“勾”进镜头（白色）。',
+  'modeInfo.PHOTOMETRIC_STEREO.title': '光度立体 (Photometric Stereo)',
+  'modeInfo.PHOTOMETRIC_STEREO.desc': '原理：几个方向不同的光源依次点亮，每次拍一张图。同一个点在各张图中的明暗随表面朝向变化，用朗伯定律联立求解，就能得到每个像素的法线 (倾斜) 和反照率 (颜色)。印刷和纹理进入反照率图，浮雕和凹坑进入法线与曲率图，适合读取纹理表面上的浮雕字符。',
+
+  // Ray diagram
+  'diagram.title': '物理光路示意图',
+  'diagram.extraLights_other': '+{count} 个光源',
+  'diagram.entersLens': '进入镜头 ({captured}/{total})',
+  'diagram.missesLens': '未进镜头',
+  'diagram.polarized': '线偏振 {angle}°',
+  'diagram.unpolarized': '非偏振',
+  'diagram.analyzerPasses': '检偏器透过 {percent}%',
+  'diagram.acceptanceCone': '接收锥',
+  'diagram.scatterLobe': '散射瓣',
+  'diagram.object': '被测物体',
+  'diagram.camera': '相机 (接收端)',
+  'diagram.telecentric': '远心',
+  'diagram.standard': '普通镜头',
+  'diagram.analyzer': '检偏',
+  'diagram.flatSurface': '平坦表面',
+  'diagram.defect': '缺陷/刻字',
+  'diagram.dragHint': '拖动以改变入射角',
+  'diagram.coaxialLamp': '同轴光源 + 分光镜',
+  'diagram.dome': '漫射穹顶',
+  'diagram.backlightPanel': '背光板',
+  'diagram.ringSection': '环形光 (剖面)',
+  'diagram.highAngle': '同轴/高角度光源',
+  'diagram.lowAngle': '低角度光源',
+  'diagram.result.stereo': '结论：光源逐个点亮，各张图的明暗差异给出每个点的表面倾斜',
+  'diagram.result.backlit': '结论：光从物体周围直射进镜头 (白)，物体挡光成黑色剪影',
+  'diagram.result.brightField': '结论：平坦反光强 (白)，缺陷反光跑偏 (黑)',
+  'diagram.result.darkField': '结论：平坦反光跑偏 (黑)，缺陷把光“勾”进镜头 (白)',
+  'diagram.result.both': '结论：平坦与缺陷都反光进镜头，对比度低',
+  'diagram.result.none': '结论：几乎没有光进入镜头，画面整体偏暗',
+  'diagram.outOfPlane_other': '另有 {count} 个光源从剖面外照射，只计入相机画面。',
+
+  // Camera image
+  'image.title': '相机成像效果',
+  'image.glare': '反光',
+  'image.gain': '增益',
+  'image.silhouette': '背景亮 (白色)，物体为黑色剪影',
+  'image.allBright': '背景与特征都亮，对比度低',
+  'image.allDark': '背景与特征都暗，对比度低',
+  'image.brightBackground': '背景亮 (白色)，特征暗 (黑色)',
+  'image.darkBackground': '背景暗 (黑色)，特征亮 (白色)',
+  'image.bestFor': '适用场景',
+  'useCase.BRIGHT_FIELD.flatness': '表面平整度检测',
+  'useCase.BRIGHT_FIELD.pits': '明显的黑点 / 深坑',
+  'useCase.BRIGHT_FIELD.presence': '有无检测 (Presence)',
+  'useCase.BRIGHT_FIELD.scratches': '细微划痕 (不适用)',
+  'useCase.DARK_FIELD.scratches': '表面细微划痕 (最常用)',
+  'useCase.DARK_FIELD.text': 'OCR 字符识别 / 浮雕字',
+  'useCase.DARK_FIELD.edges': '边缘轮廓检测',
+  'useCase.DARK_FIELD.color': '平坦区域的颜色变化',
+  'useCase.COAXIAL.marks': '镜面工件上的印字 (晶圆、抛光金属)',
+  'useCase.COAXIAL.dents': '平整反光面上的凹坑',
+  'useCase.COAXIAL.even': '无侧向阴影的均匀照明',
+  'useCase.COAXIAL.curved': '曲面或哑光表面',
+  'useCase.DOME.curved': '弯曲反光件 (罐体、钢球、铝箔)',
+  'useCase.DOME.packaging': '褶皱包装上的印刷',
+  'useCase.DOME.glare': '抑制纹理与眩光',
+  'useCase.DOME.shallow': '浅划痕与凹坑 (被抹平)',
+  'useCase.BACKLIGHT.outline': '轮廓尺寸测量',
+  'useCase.BACKLIGHT.holes': '孔位、缝隙与有无检测',
+  'useCase.BACKLIGHT.fill': '透明容器液位',
+  'useCase.BACKLIGHT.top': '顶面上的任何特征',
+  'useCase.LOW_ANGLE_RING.scratches': '各个方向的划痕',
+  'useCase.LOW_ANGLE_RING.stamped': '凸起 / 冲压字符',
+  'useCase.LOW_ANGLE_RING.dust': '平面上的颗粒与灰尘',
+  'useCase.LOW_ANGLE_RING.print': '无起伏的印刷标记',
+  'useCase.PHOTOMETRIC_STEREO.embossed': '纹理表面上的浮雕字符',
+  'useCase.PHOTOMETRIC_STEREO.albedo': '区分起伏与印刷 (反照率)',
+  'useCase.PHOTOMETRIC_STEREO.curvature': '浅凹坑与鼓包 (曲率)',
+  'useCase.PHOTOMETRIC_STEREO.moving': '运动工件与高反光表面',
+
+  // Photometric stereo
+  'stereo.captures': '逐个点亮的采集图',
+  'stereo.reconstruction': '重建结果',
+  'stereo.normals': '法线',
+  'stereo.albedo': '反照率',
+  'stereo.curvature': '曲率',
+  'stereo.needLights': '需要至少 {count} 个来自不同方向 (不在同一平面内) 的光源才能解出法线。',
+  'stereo.note': '每个像素的亮度随光源方向变化，按朗伯定律求解即可分离表面倾斜 (法线) 与颜色 (反照率)。高光会破坏朗伯假设，在镜面材料上重建会出错。',
+
+  // Light sources
+  'lights.title': '光源组合',
+  'lights.add': '添加光源',
+  'lights.turnOff': '关闭',
+  'lights.turnOn': '打开',
+  'lights.remove': '移除',
+  'lights.angle': '入射角',
+  'lights.azimuth': '方位角',
+  'lights.intensity': '强度',
+  'lights.none': '没有光源，相机一片漆黑。',
+  'lights.note': '各光源在相机中的亮度相加。方位角 0° 从示意图左侧照射，180° 从右侧；其他方位的光不在剖面内，只出现在相机画面中。',
+  'fixture.spot': '点光源',
+  'fixture.coaxial': '同轴光',
+  'fixture.ring': '环形光',
+  'fixture.dome': '穹顶光',
+  'fixture.backlight': '背光',
+  'combo.coaxialRing': '同轴 + 环形',
+  'combo.quadrant': '四向点光源',
+
+  // Materials
+  'material.title': '表面材质',
+  'material.specular': '镜面反射率',
+  'material.diffuse': '漫反射率',
+  'material.lobe': '高光瓣宽',
+  'material.polished-metal': '抛光金属',
+  'material.polished-metal.hint': '近乎完美的镜面',
+  'material.brushed-metal': '拉丝金属',
+  'material.brushed-metal.hint': '较宽的高光瓣',
+  'material.matte-plastic': '哑光塑料',
+  'material.matte-plastic.hint': '以漫反射为主',
+  'material.painted': '喷漆件',
+  'material.painted.hint': '红色底漆 + 光亮清漆',
+  'material.ceramic': '陶瓷',
+  'material.ceramic.hint': '高漫反射 + 釉面高光',
+  'material.glass': '玻璃',
+  'material.glass.hint': '仅反射约 4%，其余透射',
+
+  // Light color and filters
+  'spectrum.title': '光源颜色与滤镜',
+  'spectrum.wavelength': '有效波长',
+  'spectrum.signal': '信号',
+  'spectrum.blocked': '滤镜挡住了光源的波长，相机几乎收不到光。',
+  'spectrum.note': '单色相机只记录亮度：与标记同色的光让标记“消失”，互补色让它变黑；短波长对细微划痕散射更强。',
+  'lightColor.white': '白光',
+  'lightColor.red': '红光',
+  'lightColor.green': '绿光',
+  'lightColor.blue': '蓝光',
+  'lightColor.ir': '红外',
+  'lightColor.uv': '紫外',
+  'filter.none': '无滤镜',
+  'filter.red': '红色带通',
+  'filter.green': '绿色带通',
+  'filter.blue': '蓝色带通',
+  'filter.ir': '红外带通',
+  'filter.uv': '紫外带通',
+
+  // Polarizers
+  'polarization.title': '偏振片',
+  'polarization.polarizer': '光源起偏器',
+  'polarization.analyzer': '镜头检偏器',
+  'polarization.cross': '正交',
+  'polarization.axis': '透光轴',
+  'polarization.crossing': '夹角',
+  'polarization.glarePassed': '镜面反光透过',
+  'polarization.diffusePassed': '漫反射透过',
+  'polarization.note': '镜面反射保持光的偏振方向，检偏器转到与起偏器正交时就能挡住反光；进入材料后再散射出来的漫反射光已经消偏，总有一半能通过。',
+
+  // Lens
+  'lens.title': '相机与镜头',
+  'lens.entocentric': '普通镜头 (非远心)',
+  'lens.telecentric': '远心镜头',
+  'lens.focalLength': '焦距',
+  'lens.workingDistance': '工作距离',
+  'lens.aperture': '光圈',
+  'lens.sensorSize': '传感器尺寸',
+  'lens.magnification': '放大倍率',
+  'lens.fieldAngle': '视场半角',
+  'lens.telecentricNote': '远心镜头的主光线与光轴平行：视野内各处看到的反射角相同，适合镜面件的均匀亮视野与尺寸测量。',
+  'lens.entocentricNote': '普通镜头的主光线汇聚到入瞳：视野边缘以倾斜角度观察，镜面件在边缘容易变暗。',
+
+  // Custom parts
+  'part.title': '自定义工件',
+  'part.backToCoin': '恢复硬币',
+  'part.readError': '无法读取该文件：{detail}',
+  'part.drop': '拖入灰度高度图 (PNG) 或深度 CSV，或点击选择文件',
+  'part.relief': '起伏高度',
+  'part.sectionRow': '截面行',
+  'part.note': '亮 = 高；透明像素不属于工件。文件只在浏览器本地处理。',
+
+  // Profile editor
+  'profile.title': '表面轮廓编辑器',
+  'profile.help': '拖动顶点修改形状，点击轮廓线添加顶点，双击顶点删除。',
+  'profile.position': '位置',
+  'profile.width': '宽度',
+  'profile.height': '高度',
+  'profile.depth': '深度',
+  'profile.insert': '插入特征',
+  'feature.v-scratch': 'V 形划痕',
+  'feature.rounded-pit': '圆坑',
+  'feature.embossed': '凸起字符',
+  'feature.burr': '毛刺',
+  'feature.step': '台阶边',
+
+  // Case gallery
+  'cases.firstAttempt': '常见做法',
+  'cases.recommended': '推荐',
+  'cases.open': '在模拟器中查看 (推荐打光)',
+
+  // Quiz
+  'quiz.title': '自测',
+  'quiz.leave': '退出自测',
+  'quiz.summary': '已答对 {solved}/{total}，其中 {firstTry} 题一次答对',
+  'quiz.resetProgress': '清除进度',
+  'quiz.dragHint': '拖动光路图中的光源 (或入射角滑块)，然后检查。',
+  'quiz.check': '检查',
+  'quiz.correct': '正确！',
+  'quiz.tryAgain': '还不对，再试试。',
+  'quiz.cameraSees': '相机看到',
+  'quiz.needed': '要求',
+  'quiz.previous': '上一题',
+  'quiz.next': '下一题',
+  'quiz.region.flat': '表面',
+  'quiz.region.defect': '缺陷',
+  'quiz.region.backdrop': '背景',
+  'quiz.goal.flat.bright': '表面亮',
+  'quiz.goal.flat.dark': '表面暗',
+  'quiz.goal.defect.bright': '缺陷亮',
+  'quiz.goal.defect.dark': '缺陷暗',
+  'quiz.goal.backdrop.bright': '背景亮',
+  'quiz.goal.backdrop.dark': '背景暗',
+  'quiz.goal.contrast': '缺陷比表面亮 {contrast}',
+
+  // Lessons
+  'lessons.title': '分步课程',
+  'lessons.step': '第 {step} / {total} 步',
+  'lessons.all': '课程列表',
+  'lessons.steps_other': '{count} 步',
+  'lessons.back': '上一步',
+  'lessons.next': '下一步',
+  'lessons.finish': '完成',
+
+  // Chat
+  'chat.title': 'AI 光学顾问',
+  'chat.welcome': '你好！我是你的光学助教。关于打光角度、明暗视野或检测难题，尽管问我。',
+  'chat.placeholder': '例如：为什么低角度适合检测划痕？',
+  'chat.stop': '停止',
+  'chat.stopped': '已停止',
+  'chat.conversations': '对话记录',
+  'chat.new': '新对话',
+  'chat.noConversations': '还没有保存的对话',
+  'chat.untitled': '新对话',
+  'chat.rename': '重命名',
+  'chat.delete': '删除',
+  'chat.messageCount_other': '{count} 条消息',
+  'chat.you': '我',
+  'chat.exportMarkdown': '导出为 Markdown',
+  'chat.exportJson': '导出为 JSON',
+  'chat.attachPhoto': '附上零件照片（最多 {max} 张）',
+  'chat.removePhoto': '移除照片',
+  'chat.photoError': '无法读取照片：{detail}',
+  'chat.photoQuestion': '这是我的零件在当前打光下的照片。你看到了什么？哪种打光方式更合适？',
+  'chat.action.setMode': '助教切换到了{mode}',
+  'chat.action.setAngle': '助教把光源角度设为 {angle}°',
+  'chat.action.loadCase': '助教载入了案例“{name}”',
+  'chat.action.highlight': '助教标出了{target}',
+  'chat.highlight.light': '光源',
+  'chat.highlight.lens': '镜头',
+  'chat.highlight.flat': '平整表面',
+  'chat.highlight.defect': '缺陷',
+  'chat.highlight.captured': '进入镜头的光线',
+  'chat.highlight.missed': '未进入镜头的光线',
+  'chat.undo': '撤销',
+  'chat.error.auth': '助教无法登录 AI 服务：API 密钥缺失或无效。',
+  'chat.error.quota': '助教的 AI 服务额度暂时用完了，请稍后再试。',
+  'chat.error.network': '无法连接到助教，请检查网络后重试。',
+  'chat.error.blocked': 'AI 服务拒绝回答这个问题，请换个说法试试。',
+  'chat.error.throttled': '提问太快了，请在 {seconds} 秒后重试。',
+  'chat.error.unknown': '向助教提问时出错了。',
+  'chat.retry': '重试',
+  'ai.emptyResponse': '抱歉，我现在无法回答光学问题。',
+
+  // Added to the model's instructions, so it is written in English for every locale
+  'ai.languageInstruction': 'Reply in Simplified Chinese. Explain concepts using standard Machine Vision terminology in Chinese.',
+};
+
+export default zh;
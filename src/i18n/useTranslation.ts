@@ -0,0 +1,17 @@
+import { useContext } from 'react';
+import { LocalizedText } from '../types';
+import { I18nContext } from './I18nContext';
+import { Translate, localize, translate } from './index';
+
+export const useTranslation = () => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useTranslation must be used inside an I18nProvider');
+  const { language, setLanguage } = context;
+  const t: Translate = (key, params) => translate(language, key, params);
+  return {
+    language,
+    setLanguage,
+    t,
+    localize: (text: LocalizedText) => localize(text, language),
+  };
+};
@@ -0,0 +1,228 @@
+import { Heightmap, Point } from '../types';
+import { DEFAULT_PROFILE, SCENE } from './scene';
+import { MAX_RAISE, MAX_SINK } from './surfaceFeatures';
+
+// Box blur span (pixels) that softens glyph edges; two passes make the edge
+// a ramp whose steepest slope is relief / EDGE_RAMP
+const EDGE_RAMP = 5;
+const RIM_HEIGHT = 3;
+const TABLE_DROP = 8;
+
+// Signed relief of the profile's features: positive when they stand proud of
+// the surface, negative when cut into it. The height is chosen so the
+// steepest facet of the profile keeps its slope on the glyph edges.
+export const featureRelief = (profile: Point[], surfaceY: number) => {
+  let deepest = 0;
+  let steepest = 0;
+  profile.forEach((p, i) => {
+    if (Math.abs(surfaceY - p.y) > Math.abs(deepest)) deepest = surfaceY - p.y;
+    if (i === 0) return;
+    const prev = profile[i - 1];
+    const dx = Math.abs(p.x - prev.x);
+    steepest = Math.max(steepest, dx === 0 ? 4 : Math.abs(p.y - prev.y) / dx);
+  });
+  if (deepest === 0) return 0;
+  return Math.sign(deepest) * Math.min(4, steepest) * EDGE_RAMP;
+};
+
+// Separable box blur, repeated to approximate a Gaussian
+const blur = (values: Float32Array, width: number, height: number, radius: number, passes: number) => {
+  let src: Float32Array = values;
+  let dst: Float32Array = new Float32Array(values.length);
+  const span = radius * 2 + 1;
+  for (let pass = 0; pass < passes; pass++) {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) {
+          sum += src[y * width + Math.min(width - 1, Math.max(0, x + k))];
+        }
+        dst[y * width + x] = sum / span;
+      }
+    }
+    [src, dst] = [dst, src];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) {
+          sum += src[Math.min(height - 1, Math.max(0, y + k)) * width + x];
+        }
+        dst[y * width + x] = sum / span;
+      }
+    }
+    [src, dst] = [dst, src];
+  }
+  return src;
+};
+
+// Rasterizes the built-in coin marking (a "5" and a scratch) into a 0..1 mask
+export const rasterizeCoinMarking = (size: number): Float32Array => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  const mask = new Float32Array(size * size);
+  if (!ctx) return mask;
+
+  ctx.translate(size / 2, size / 2);
+  ctx.rotate((12 * Math.PI) / 180);
+  ctx.fillStyle = '#fff';
+  ctx.font = `bold ${Math.round(size * 0.45)}px serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText('5¢', 0, -size * 0.04);
+  ctx.fillRect(-size * 0.16, size * 0.2, size * 0.32, Math.max(2, size * 0.025));
+
+  const { data } = ctx.getImageData(0, 0, size, size);
+  for (let i = 0; i < mask.length; i++) mask[i] = data[i * 4 + 3] / 255;
+  return mask;
+};
+
+// Rasterizes the red QC code printed on the coin; ink has no relief
+export const rasterizeCoinInk = (size: number): Uint8Array => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  const ink = new Uint8Array(size * size);
+  if (!ctx) return ink;
+
+  ctx.fillStyle = '#fff';
+  ctx.font = `bold ${Math.round(size * 0.11)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText('QC 07', size / 2, size * 0.2);
+
+  const { data } = ctx.getImageData(0, 0, size, size);
+  for (let i = 0; i < ink.length; i++) ink[i] = data[i * 4 + 3] > 127 ? 1 : 0;
+  return ink;
+};
+
+// A coin lying on a table: a disc with a raised rim and the marking pressed
+// in (or standing out) by the given relief, plus an optional printed code.
+export const buildCoinHeightmap = (
+  size: number,
+  marking: Float32Array,
+  relief: number,
+  ink?: Uint8Array
+): Heightmap => {
+  const heights = new Float32Array(size * size);
+  const mask = new Uint8Array(size * size);
+  const center = (size - 1) / 2;
+  const radius = size * 0.46;
+  const rimWidth = radius * 0.08;
+  const ramp = blur(marking, size, size, (EDGE_RAMP - 1) / 2, 2);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = y * size + x;
+      const r = Math.hypot(x - center, y - center);
+      if (r > radius) {
+        heights[i] = -TABLE_DROP;
+        continue;
+      }
+      mask[i] = 1;
+      const rim = r > radius - rimWidth ? RIM_HEIGHT * Math.sin((Math.PI * (radius - r)) / rimWidth) : 0;
+      heights[i] = rim + relief * ramp[i];
+    }
+  }
+
+  return { width: size, height: size, heights, mask, ink };
+};
+
+// Imported maps are resampled so the longest side fits the camera image
+export const MAX_IMPORT_SIZE = 128;
+
+const fitSize = (width: number, height: number) => {
+  const scale = Math.min(1, MAX_IMPORT_SIZE / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+// Shifts the median of the part to 0 and scales its range to 1. Pixels
+// outside the part are parked at the lowest point so sections stay tidy.
+const normalizeHeights = (values: Float32Array, mask: Uint8Array, width: number, height: number): Heightmap => {
+  const inside = values.filter((_, i) => mask[i]).sort();
+  if (inside.length === 0) throw new Error('The heightmap does not contain any part pixels.');
+
+  const median = inside[Math.floor(inside.length / 2)];
+  const range = inside[inside.length - 1] - inside[0] || 1;
+  const floor = (inside[0] - median) / range;
+  const heights = values.map((v, i) => (mask[i] ? (v - median) / range : floor));
+  return { width, height, heights, mask };
+};
+
+// Depth CSV: one row of numbers per line, separated by commas, semicolons,
+// tabs or spaces. Empty or non-numeric cells are treated as holes.
+export const parseDepthCsv = (text: string): Heightmap => {
+  const rows = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => line.split(/[,;\t ]+/).map(cell => parseFloat(cell)));
+  const srcHeight = rows.length;
+  const srcWidth = Math.max(0, ...rows.map(row => row.length));
+  if (srcWidth < 2 || srcHeight < 2) throw new Error('The CSV needs at least 2 rows and 2 columns of depths.');
+
+  const { width, height } = fitSize(srcWidth, srcHeight);
+  const values = new Float32Array(width * height);
+  const mask = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const row = rows[Math.floor((y * srcHeight) / height)];
+    for (let x = 0; x < width; x++) {
+      const value = row[Math.floor((x * srcWidth) / width)];
+      if (Number.isFinite(value)) {
+        values[y * width + x] = value;
+        mask[y * width + x] = 1;
+      }
+    }
+  }
+  return normalizeHeights(values, mask, width, height);
+};
+
+// Grayscale image: brighter is higher. Transparent pixels are not part of
+// the part, so a PNG with an alpha channel can carry its own outline.
+export const loadHeightmapImage = async (file: Blob): Promise<Heightmap> => {
+  const bitmap = await createImageBitmap(file);
+  const { width, height } = fitSize(bitmap.width, bitmap.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available in this browser.');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const values = new Float32Array(width * height);
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = (data[i * 4] + data[i * 4 + 1] + data[i * 4 + 2]) / 3;
+    mask[i] = data[i * 4 + 3] > 0 ? 1 : 0;
+  }
+  return normalizeHeights(values, mask, width, height);
+};
+
+// Stretches a normalized map to the given relief in pixels
+export const scaleHeightmap = (map: Heightmap, relief: number): Heightmap => ({
+  ...map,
+  heights: map.heights.map(h => h * relief),
+});
+
+// Diagram units covered by one map pixel: every map spans the same width as
+// the built-in surface
+export const unitsPerMapPixel = (map: Heightmap) =>
+  (DEFAULT_PROFILE[DEFAULT_PROFILE.length - 1].x - DEFAULT_PROFILE[0].x) / Math.max(1, map.width - 1);
+
+// One row of the map as a diagram profile, keeping the slopes the camera
+// image is shaded with (tiny maps are clipped to the band the diagram can show)
+export const heightmapSection = (map: Heightmap, row: number): Point[] => {
+  const unitsPerPixel = unitsPerMapPixel(map);
+  const y = Math.min(map.height - 1, Math.max(0, row));
+  return Array.from({ length: map.width }, (_, x) => {
+    const lift = map.heights[y * map.width + x] * unitsPerPixel;
+    return {
+      x: DEFAULT_PROFILE[0].x + x * unitsPerPixel,
+      y: SCENE.surfaceY - Math.min(MAX_RAISE, Math.max(-MAX_SINK, lift)),
+    };
+  });
+};
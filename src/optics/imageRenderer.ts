@@ -0,0 +1,104 @@
+import { CameraAperture, Heightmap, Material } from '../types';
+import { Light3D, shadeLights } from './materials';
+import { PolarizationWeights } from './polarization';
+import { unitsPerMapPixel } from './heightmap';
+
+// Sensor shows a little dark current even when no light arrives
+export const BLACK_LEVEL = 0.04;
+
+// Unit normals (x, y, z interleaved) from central differences of the heights
+export const computeNormals = ({ width, height, heights }: Heightmap): Float32Array => {
+  const normals = new Float32Array(width * height * 3);
+  const at = (x: number, y: number) =>
+    heights[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dx = (at(x + 1, y) - at(x - 1, y)) / 2;
+      // Image rows grow downward while scene y grows "up" the image
+      const dy = (at(x, y - 1) - at(x, y + 1)) / 2;
+      const len = Math.hypot(dx, dy, 1);
+      const i = (y * width + x) * 3;
+      normals[i] = -dx / len;
+      normals[i + 1] = -dy / len;
+      normals[i + 2] = 1 / len;
+    }
+  }
+  return normals;
+};
+
+export interface RenderOptions {
+  material: Material;
+  inkMaterial: Material; // Used where the map is printed on
+  camera: CameraAperture;
+  backlight: number; // Brightness of a panel behind the part, 0 without one
+  exposure: number; // Scales the recorded signal, see spectralResponse
+  polarization: PolarizationWeights;
+}
+
+// Grey level (0..1, saturating at 1) of every pixel the camera records, row
+// by row. The image spans the lens's field of view; the part is centered in
+// it at its true scale, and each pixel is shaded along its own chief ray.
+export const captureLevels = (
+  map: Heightmap,
+  normals: Float32Array,
+  lights: Light3D[],
+  { material, inkMaterial, camera, backlight, exposure, polarization }: RenderOptions,
+  size: number
+): Float32Array => {
+  const levels = new Float32Array(size * size);
+  const normal = { x: 0, y: 0, z: 1 };
+  const view = { x: 0, y: 0, z: 1 };
+  const fieldWidth = camera.halfWidth * 2;
+  const mapScale = unitsPerMapPixel(map);
+
+  for (let py = 0; py < size; py++) {
+    const down = ((py + 0.5) / size - 0.5) * fieldWidth;
+    const my = Math.round((map.height - 1) / 2 + down / mapScale);
+    for (let px = 0; px < size; px++) {
+      const right = ((px + 0.5) / size - 0.5) * fieldWidth;
+      const mx = Math.round((map.width - 1) / 2 + right / mapScale);
+      const i = mx >= 0 && mx < map.width && my >= 0 && my < map.height ? my * map.width + mx : -1;
+      const onPart = i >= 0 && map.mask[i] === 1;
+
+      // Opaque part in front of the panel: only the surroundings light up
+      let level = onPart ? 0 : backlight * exposure * polarization.specular;
+      if (onPart) {
+        const surface = map.ink?.[i] ? inkMaterial : material;
+        normal.x = normals[i * 3];
+        normal.y = normals[i * 3 + 1];
+        normal.z = normals[i * 3 + 2];
+        if (!camera.telecentric) {
+          const len = Math.hypot(right, down, camera.workingDistance);
+          view.x = -right / len;
+          view.y = down / len;
+          view.z = camera.workingDistance / len;
+        }
+        level = shadeLights(lights, normal, surface, view, camera.acceptanceAngle, polarization) * exposure;
+      }
+      levels[py * size + px] = Math.min(1, level);
+    }
+  }
+  return levels;
+};
+
+// Writes grey levels into an RGBA buffer as the sensor would output them
+export const writeGrayscale = (levels: Float32Array, out: Uint8ClampedArray) => {
+  levels.forEach((level, i) => {
+    const value = Math.round((BLACK_LEVEL + (1 - BLACK_LEVEL) * level) * 255);
+    out[i * 4] = value;
+    out[i * 4 + 1] = value;
+    out[i * 4 + 2] = value;
+    out[i * 4 + 3] = 255;
+  });
+};
+
+// Fills a size × size RGBA buffer with the grayscale image the camera records
+export const renderCameraImage = (
+  map: Heightmap,
+  normals: Float32Array,
+  lights: Light3D[],
+  options: RenderOptions,
+  out: Uint8ClampedArray,
+  size: number
+) => writeGrayscale(captureLevels(map, normals, lights, options, size), out);
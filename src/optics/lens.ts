@@ -0,0 +1,85 @@
+import { CameraAperture, LensSettings, Point } from '../types';
+
+// Degrees over which a perfect mirror's response fades once its reflection
+// leaves the lens cone; rough surfaces widen this by their lobe width.
+export const CONE_SOFTNESS = 6;
+
+// Physical scale of the part: the diagram's surface (360 units) is 24 mm wide
+export const UNITS_PER_MM = 15;
+
+export const DEFAULT_LENS: LensSettings = {
+  kind: 'entocentric',
+  focalLength: 16,
+  fNumber: 2.8,
+  workingDistance: 75,
+  sensorWidth: 7.2,
+};
+
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+export interface LensSummary {
+  magnification: number;
+  fieldOfView: number; // mm across the object
+  numericalAperture: number;
+  halfFieldAngle: number; // Tilt of the outermost chief ray in degrees
+}
+
+// Thin-lens estimates; good enough to compare one lens with another
+export const describeLens = (lens: LensSettings): LensSummary => {
+  const magnification = lens.focalLength / Math.max(1, lens.workingDistance - lens.focalLength);
+  const fieldOfView = lens.sensorWidth / magnification;
+  const numericalAperture =
+    lens.kind === 'telecentric'
+      ? Math.min(1, magnification / (2 * lens.fNumber))
+      : Math.sin(Math.atan(lens.focalLength / (2 * lens.fNumber) / lens.workingDistance));
+  const halfFieldAngle = lens.kind === 'telecentric' ? 0 : toDegrees(Math.atan(fieldOfView / 2 / lens.workingDistance));
+  return { magnification, fieldOfView, numericalAperture, halfFieldAngle };
+};
+
+export const deriveCamera = (lens: LensSettings, position: Point): CameraAperture => {
+  const { fieldOfView, numericalAperture } = describeLens(lens);
+  return {
+    position,
+    halfWidth: (fieldOfView / 2) * UNITS_PER_MM,
+    acceptanceAngle: toDegrees(Math.asin(numericalAperture)),
+    workingDistance: lens.workingDistance * UNITS_PER_MM,
+    telecentric: lens.kind === 'telecentric',
+  };
+};
+
+export const isInField = (camera: CameraAperture, x: number) =>
+  Math.abs(x - camera.position.x) <= camera.halfWidth;
+
+// Unit direction from an object point at x up to the lens
+export const chiefRay = (camera: CameraAperture, x: number): Point => {
+  if (camera.telecentric) return { x: 0, y: -1 };
+  const dx = camera.position.x - x;
+  const len = Math.hypot(dx, camera.workingDistance);
+  return { x: dx / len, y: -camera.workingDistance / len };
+};
+
+// Point of the span [x0, x1] whose chief ray lines up best with a reflected
+// direction, or null when none of the span is in the field
+export const bestFieldPoint = (camera: CameraAperture, x0: number, x1: number, direction: Point) => {
+  const left = Math.max(Math.min(x0, x1), camera.position.x - camera.halfWidth);
+  const right = Math.min(Math.max(x0, x1), camera.position.x + camera.halfWidth);
+  if (left > right) return null;
+  if (camera.telecentric || direction.y >= 0) return (left + right) / 2;
+  const ideal = camera.position.x + (camera.workingDistance * direction.x) / direction.y;
+  return Math.min(right, Math.max(left, ideal));
+};
+
+// A traced ray stands for a beam about CONE_SOFTNESS wide, so it counts as
+// captured while it stays that close to the NA cone
+export const isCaptured = (camera: CameraAperture, fieldX: number, direction: Point) => {
+  if (direction.y >= 0 || !isInField(camera, fieldX)) return false;
+  const chief = chiefRay(camera, fieldX);
+  const cos = Math.max(-1, Math.min(1, chief.x * direction.x + chief.y * direction.y));
+  return toDegrees(Math.acos(cos)) <= camera.acceptanceAngle + CONE_SOFTNESS;
+};
+
+// Largest light angle whose mirror reflection off a flat part still reaches
+// the lens somewhere in the field: the bright-field limit
+export const brightFieldLimit = (camera: CameraAperture) =>
+  camera.acceptanceAngle +
+  (camera.telecentric ? 0 : toDegrees(Math.atan(camera.halfWidth / camera.workingDistance)));
@@ -0,0 +1,13 @@
+import { LessonCondition, SimulatorState } from '../types';
+import { meetsGoal } from './quiz';
+
+// Angle limits only hold while the first lamp is a spot, since other
+// fixtures have no single angle to compare
+export const conditionMet = (condition: LessonCondition, state: SimulatorState) => {
+  const { mode, minAngle, maxAngle, material, goal } = condition;
+  if (mode && state.mode !== mode) return false;
+  if (material && state.materialId !== material) return false;
+  if (minAngle !== undefined && (state.lightAngle === null || state.lightAngle < minAngle)) return false;
+  if (maxAngle !== undefined && (state.lightAngle === null || state.lightAngle > maxAngle)) return false;
+  return !goal || meetsGoal(goal, state.levels);
+};
@@ -0,0 +1,226 @@
+import {
+  CameraAperture,
+  CameraLevels,
+  LightFixture,
+  LightingMode,
+  LightSource,
+  Material,
+  Point,
+  SceneLight,
+  SurfaceSegment,
+} from '../types';
+import { DEFAULT_MATERIAL } from './materials';
+import { NO_POLARIZATION, PolarizationWeights } from './polarization';
+import { buildPartOutline, createAngledLight, toSegments, traceLight } from './rayTracer';
+import {
+  BRIGHT_FIELD_ANGLE,
+  DARK_FIELD_ANGLE,
+  DEFAULT_CAMERA,
+  DEFAULT_PROFILE,
+  SCENE,
+  classifyIllumination,
+  createSceneLight,
+  measureRegionBrightness,
+} from './scene';
+
+export interface LightingSetup {
+  lights: LightSource[]; // Beams of every enabled scene light, tagged with its id
+  segments: SurfaceSegment[];
+  outline: Point[]; // What the diagram draws as the object
+  backlit: boolean;
+  backlight: number; // Summed intensity of the panels behind the part
+}
+
+// Fixture geometry in diagram units
+export const COAXIAL_SPLITTER_Y = 115;
+export const DOME_RADIUS = 170;
+export const RING_ANGLE = 75;
+// Photometric stereo lamps: steep enough to light every facet, low enough
+// that their shading differs clearly
+const STEREO_ANGLE = 45;
+const STEREO_AZIMUTHS = [0, 90, 180, 270];
+const DOME_ANGLES = [-75, -60, -45, -30, -10, 10, 30, 45, 60, 75];
+const BACKLIGHT_Y = 292;
+const PART_LEFT = 140;
+const PART_RIGHT = 260;
+const PART_BOTTOM_Y = 280;
+// Rings and domes are swept around the axis this many times in 3D
+const SWEEP_COPIES = 4;
+
+// Each scene light keeps its color in the diagram and the controls
+export const LIGHT_COLORS = ['#facc15', '#38bdf8', '#4ade80', '#fb923c', '#a78bfa', '#f87171'];
+export const sceneLightColor = (id: number) => LIGHT_COLORS[id % LIGHT_COLORS.length];
+
+const target = { x: SCENE.centerX, y: SCENE.surfaceY };
+
+// Single-fixture scenes behind the mode buttons
+export const presetLights = (mode: LightingMode): SceneLight[] => {
+  const light = (fixture: LightFixture, angle = 0): SceneLight => ({
+    id: 0,
+    fixture,
+    angle,
+    azimuth: 0,
+    intensity: 1,
+    enabled: true,
+  });
+  switch (mode) {
+    case LightingMode.DARK_FIELD:
+      return [light('spot', DARK_FIELD_ANGLE)];
+    case LightingMode.COAXIAL:
+      return [light('coaxial')];
+    case LightingMode.DOME:
+      return [light('dome')];
+    case LightingMode.BACKLIGHT:
+      return [light('backlight')];
+    case LightingMode.LOW_ANGLE_RING:
+      return [light('ring', RING_ANGLE)];
+    case LightingMode.PHOTOMETRIC_STEREO:
+      // Fired one at a time, see photometricStereo
+      return STEREO_AZIMUTHS.map((azimuth, id) => ({ ...light('spot', STEREO_ANGLE), id, azimuth }));
+    default:
+      return [light('spot', BRIGHT_FIELD_ANGLE)];
+  }
+};
+
+// Common multi-light recipes
+export type ComboPreset = 'coaxialRing' | 'quadrant';
+
+export const comboLights = (preset: ComboPreset): SceneLight[] => {
+  if (preset === 'coaxialRing') {
+    // Coaxial shows the flat face, the ring picks out edges on top of it
+    return [
+      { id: 0, fixture: 'coaxial', angle: 0, azimuth: 0, intensity: 0.6, enabled: true },
+      { id: 1, fixture: 'ring', angle: RING_ANGLE, azimuth: 0, intensity: 1, enabled: true },
+    ];
+  }
+  // Four spots around the part, as used for photometric stereo or to pick
+  // out scratches one direction at a time
+  return [0, 90, 180, 270].map((azimuth, id) => ({
+    id,
+    fixture: 'spot',
+    angle: 60,
+    azimuth,
+    intensity: 1,
+    enabled: true,
+  }));
+};
+
+// The lighting mode a scene behaves like: that of its strongest enabled light
+export const dominantMode = (sceneLights: SceneLight[], camera: CameraAperture = DEFAULT_CAMERA) => {
+  const lit = sceneLights.filter(light => light.enabled && light.intensity > 0);
+  if (lit.length === 0) return LightingMode.DARK_FIELD;
+  const strongest = lit.reduce((best, light) => (light.intensity > best.intensity ? light : best));
+  switch (strongest.fixture) {
+    case 'coaxial':
+      return LightingMode.COAXIAL;
+    case 'dome':
+      return LightingMode.DOME;
+    case 'backlight':
+      return LightingMode.BACKLIGHT;
+    case 'ring':
+      return LightingMode.LOW_ANGLE_RING;
+    default:
+      return classifyIllumination(strongest.angle, camera);
+  }
+};
+
+// A beam is drawn in the diagram only when it lies in the diagram plane
+export const isInDiagramPlane = (light: LightSource) => light.azimuth % 360 === 0;
+
+// Cross-section beams a fixture emits, tagged with the scene light's settings
+const fixtureBeams = (light: SceneLight): LightSource[] => {
+  const tag = (beam: LightSource, azimuth = 0, azimuthCopies = 1): LightSource => ({
+    ...beam,
+    intensity: light.intensity,
+    azimuth,
+    azimuthCopies,
+    sourceId: light.id,
+  });
+
+  switch (light.fixture) {
+    case 'coaxial':
+      // Beam splitter folds a side-mounted lamp onto the optical axis
+      return [tag(createAngledLight(target, 0, SCENE.surfaceY - COAXIAL_SPLITTER_Y, 100, 8))];
+    case 'dome':
+      // Diffuse dome approximated by beams arriving from every direction
+      return DOME_ANGLES.map(angle =>
+        tag(createAngledLight(target, angle, DOME_RADIUS, 120, 3), 0, SWEEP_COPIES)
+      );
+    case 'ring':
+      // Cross-section of a ring: the same low angle from both sides
+      return [light.angle, -light.angle].map(angle =>
+        tag(createAngledLight(target, angle, SCENE.lightDistance, SCENE.beamFootprint, 6), 0, SWEEP_COPIES)
+      );
+    case 'backlight':
+      return [tag(createAngledLight(target, 180, BACKLIGHT_Y - SCENE.surfaceY, 260, 14))];
+    default: {
+      // A lamp on the far side of the axis is the mirrored beam in the diagram
+      const azimuth = ((light.azimuth % 360) + 360) % 360;
+      const flipped = azimuth > 90 && azimuth < 270;
+      return [
+        tag(
+          createSceneLight(flipped ? -light.angle : light.angle),
+          flipped ? azimuth - 180 : azimuth
+        ),
+      ];
+    }
+  }
+};
+
+export const buildLightingSetup = (
+  sceneLights: SceneLight[],
+  profile: Point[] = DEFAULT_PROFILE
+): LightingSetup => {
+  const enabled = sceneLights.filter(light => light.enabled);
+  const lights = enabled.flatMap(fixtureBeams);
+
+  // A backlight needs the part as a solid body rather than just its top face
+  const panels = enabled.filter(light => light.fixture === 'backlight');
+  if (panels.length > 0) {
+    const part = buildPartOutline(profile, PART_LEFT, PART_RIGHT, PART_BOTTOM_Y);
+    return {
+      lights,
+      segments: part.segments,
+      outline: part.outline,
+      backlit: true,
+      backlight: panels.reduce((sum, light) => sum + light.intensity, 0),
+    };
+  }
+  return { lights, segments: toSegments(profile), outline: profile, backlit: false, backlight: 0 };
+};
+
+// What the camera records: reflections are summed over every source, and for
+// backlighting the backdrop is the light of each panel that passes the part
+// and reaches the lens; it keeps its polarization like a mirror reflection.
+// Exposure scales everything the sensor receives.
+export const measureCameraLevels = (
+  setup: LightingSetup,
+  material: Material = DEFAULT_MATERIAL,
+  camera: CameraAperture = DEFAULT_CAMERA,
+  exposure = 1,
+  polarization: PolarizationWeights = NO_POLARIZATION
+): CameraLevels => {
+  const reflected = setup.lights.reduce(
+    (sum, light) => {
+      const levels = measureRegionBrightness(light, setup.segments, camera, material, polarization);
+      return { flat: sum.flat + levels.flat, defect: sum.defect + levels.defect };
+    },
+    { flat: 0, defect: 0 }
+  );
+
+  let backdrop: number | null = null;
+  if (setup.backlit) {
+    const bounds = { width: SCENE.width, height: SCENE.height };
+    const passing = setup.lights.filter(light =>
+      traceLight(light, setup.segments, camera, bounds).some(ray => ray.captured && ray.hits.length === 0)
+    );
+    const direct = passing.reduce((sum, light) => sum + light.intensity, 0);
+    backdrop = Math.min(1, direct * exposure * polarization.specular);
+  }
+
+  return {
+    flat: Math.min(1, reflected.flat * exposure),
+    defect: Math.min(1, reflected.defect * exposure),
+    backdrop,
+  };
+};
@@ -0,0 +1,141 @@
+import { LightSource, Material, MaterialId, Point, Vec3 } from '../types';
+import { normalize, reflect } from './rayTracer';
+import { CONE_SOFTNESS } from './lens';
+import { NO_POLARIZATION, PolarizationWeights } from './polarization';
+import { flatSpectrum } from './spectrum';
+
+// Diffuse colors (relative to albedo) shared by several materials
+const NEUTRAL = flatSpectrum(1);
+const WHITE = { uv: 0.5, blue: 0.95, green: 1, red: 1, ir: 1 };
+const RED = { uv: 0.05, blue: 0.06, green: 0.1, red: 1, ir: 1 };
+
+export const MATERIALS: Record<MaterialId, Material> = {
+  'polished-metal': { id: 'polished-metal', reflectance: 0.9, albedo: 0.02, lobeWidth: 0, color: NEUTRAL },
+  'brushed-metal': { id: 'brushed-metal', reflectance: 0.8, albedo: 0.1, lobeWidth: 14, color: NEUTRAL },
+  'matte-plastic': { id: 'matte-plastic', reflectance: 0.04, albedo: 0.7, lobeWidth: 35, color: WHITE },
+  painted: { id: 'painted', reflectance: 0.05, albedo: 0.6, lobeWidth: 8, color: RED },
+  ceramic: { id: 'ceramic', reflectance: 0.05, albedo: 0.85, lobeWidth: 4, color: WHITE },
+  glass: { id: 'glass', reflectance: 0.04, albedo: 0, lobeWidth: 0, color: NEUTRAL },
+};
+
+export const DEFAULT_MATERIAL = MATERIALS['polished-metal'];
+
+// Red printed ink (date codes, QC marks): a matte layer that reflects red
+// and infrared but swallows blue and green
+export const RED_INK: Material = {
+  id: 'painted',
+  reflectance: 0.04,
+  albedo: 0.8,
+  lobeWidth: 25,
+  color: { uv: 0.05, blue: 0.05, green: 0.08, red: 1, ir: 1 },
+};
+
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+// Angle between two unit vectors in degrees
+const angleBetween = (a: Point, b: Point) =>
+  toDegrees(Math.acos(Math.max(-1, Math.min(1, a.x * b.x + a.y * b.y))));
+
+// Schlick's approximation: every surface turns mirror-like at grazing angles
+export const fresnel = (reflectance: number, cosIncidence: number) =>
+  reflectance + (1 - reflectance) * (1 - cosIncidence) ** 5;
+
+export interface FacetResponse {
+  specular: number;
+  diffuse: number;
+}
+
+// Light a surface element sends into the lens, split into the glossy lobe
+// around the mirror direction (Gaussian, widened by roughness and dimmed as
+// it spreads) and the Lambertian part that goes everywhere. Works in 3D with
+// z pointing up at the camera; view is the chief ray from the surface point
+// to the lens. It runs once per pixel per light, so it sticks to plain numbers.
+export const shadeNormal = (
+  light: Vec3,
+  normal: Vec3,
+  material: Material,
+  view: Vec3,
+  acceptanceAngle: number
+): FacetResponse => {
+  const dotLN = light.x * normal.x + light.y * normal.y + light.z * normal.z;
+  const cosIncidence = -dotLN;
+  if (cosIncidence <= 0) return { specular: 0, diffuse: 0 };
+
+  // Cosine of the angle between the mirror direction and the chief ray
+  const cosView =
+    (light.x - 2 * dotLN * normal.x) * view.x +
+    (light.y - 2 * dotLN * normal.y) * view.y +
+    (light.z - 2 * dotLN * normal.z) * view.z;
+  const offAxis = toDegrees(Math.acos(Math.max(-1, Math.min(1, cosView))));
+  const excess = Math.max(0, offAxis - acceptanceAngle);
+  const width = CONE_SOFTNESS + material.lobeWidth;
+  const peak = Math.sqrt(CONE_SOFTNESS / width);
+  const f = fresnel(material.reflectance, cosIncidence);
+
+  return {
+    specular: f * peak * Math.exp(-((excess / width) ** 2)),
+    diffuse: material.albedo * (1 - f) * cosIncidence,
+  };
+};
+
+// Diagram directions live in the x/z plane: SVG y grows downward, z grows up
+export const toVec3 = (p: Point): Vec3 => ({ x: p.x, y: 0, z: -p.y });
+
+export interface Light3D {
+  direction: Vec3;
+  // Share of the fixture's power this sample carries. Specular highlights
+  // keep full strength (each sample stands for a patch of the emitter), the
+  // diffuse part is scaled so extra samples do not add light.
+  share: number;
+  intensity: number;
+}
+
+// Lifts the diagram's beams into 3D: each is turned to its azimuth, and
+// rotationally symmetric fixtures (rings, domes) are swept around the axis.
+export const toLights3D = (lights: LightSource[]): Light3D[] =>
+  lights.flatMap(light => {
+    const { x, z } = toVec3(light.direction);
+    return Array.from({ length: light.azimuthCopies }, (_, k) => {
+      const azimuth = (light.azimuth * Math.PI) / 180 + (Math.PI * k) / light.azimuthCopies;
+      return {
+        direction: { x: x * Math.cos(azimuth), y: x * Math.sin(azimuth), z },
+        share: 1 / light.azimuthCopies,
+        intensity: light.intensity,
+      };
+    });
+  });
+
+// Total light a surface element sends into the lens, summed over every source
+export const shadeLights = (
+  lights: Light3D[],
+  normal: Vec3,
+  material: Material,
+  view: Vec3,
+  acceptanceAngle: number,
+  polarization: PolarizationWeights = NO_POLARIZATION
+) => {
+  let level = 0;
+  for (const light of lights) {
+    const { specular, diffuse } = shadeNormal(light.direction, normal, material, view, acceptanceAngle);
+    level += (specular * polarization.specular + diffuse * light.share * polarization.diffuse) * light.intensity;
+  }
+  return level;
+};
+
+// Relative strength of scattered light leaving a facet in a given direction;
+// used to draw the scatter lobe at each hit point.
+export const scatterLobe = (
+  incoming: Point,
+  normal: Point,
+  outgoing: Point,
+  material: Material
+) => {
+  const cosOut = outgoing.x * normal.x + outgoing.y * normal.y;
+  if (cosOut <= 0) return 0;
+  const mirror = normalize(reflect(incoming, normal));
+  const width = CONE_SOFTNESS + material.lobeWidth;
+  const cosIncidence = Math.max(0, -(incoming.x * normal.x + incoming.y * normal.y));
+  const f = fresnel(material.reflectance, cosIncidence);
+  const glossy = f * Math.sqrt(CONE_SOFTNESS / width) * Math.exp(-((angleBetween(mirror, outgoing) / width) ** 2));
+  return glossy + material.albedo * (1 - f) * cosOut;
+};
@@ -0,0 +1,113 @@
+import { Vec3 } from '../types';
+import { Light3D } from './materials';
+
+// Photometric stereo needs at least this many lamp directions
+export const MIN_CAPTURES = 3;
+
+export interface StereoCapture {
+  // Points toward the lamp; its length is the lamp's strength, so a Lambertian
+  // pixel records albedo × (normal · lamp)
+  lamp: Vec3;
+  levels: Float32Array;
+}
+
+export interface StereoReconstruction {
+  normals: Float32Array; // Unit normals (x, y, z interleaved), as computeNormals
+  albedo: Float32Array; // Relative to the brightest pixel
+  curvature: Float32Array; // Positive on bumps, negative in hollows
+}
+
+// Below this albedo a pixel is treated as background
+const MIN_ALBEDO = 1e-3;
+
+// Direction and strength of a whole fixture seen from the part: its samples
+// summed with the weight they give diffuse light
+export const lampVector = (lights: Light3D[]): Vec3 =>
+  lights.reduce(
+    (sum, { direction, share, intensity }) => ({
+      x: sum.x - direction.x * share * intensity,
+      y: sum.y - direction.y * share * intensity,
+      z: sum.z - direction.z * share * intensity,
+    }),
+    { x: 0, y: 0, z: 0 }
+  );
+
+const invert3 = (m: number[]): number[] | null => {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  if (Math.abs(det) < 1e-9) return null;
+  return [
+    (e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det,
+    (f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det,
+    (d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det,
+  ];
+};
+
+// Mean curvature from the slopes the normals imply: minus half the Laplacian
+// of the height, taken as the divergence of the gradient field
+const normalCurvature = (normals: Float32Array, size: number): Float32Array => {
+  const curvature = new Float32Array(size * size);
+  // Height gradient (right, up) at a pixel; normals are (-dx, -dy, 1) / len
+  const slope = (x: number, y: number, axis: 0 | 1) => {
+    const p = Math.min(size - 1, Math.max(0, y)) * size + Math.min(size - 1, Math.max(0, x));
+    return -normals[p * 3 + axis] / normals[p * 3 + 2];
+  };
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const dpx = (slope(x + 1, y, 0) - slope(x - 1, y, 0)) / 2;
+      // Rows grow downward while the normal's y points up the image
+      const dqy = (slope(x, y - 1, 1) - slope(x, y + 1, 1)) / 2;
+      curvature[y * size + x] = -(dpx + dqy) / 2;
+    }
+  }
+  return curvature;
+};
+
+// Least-squares Lambertian fit per pixel: levels = L · (albedo × normal).
+// Returns null when the lamps do not span three directions (fewer than three
+// captures, or all lamps in one plane through the part), since the slope
+// across that plane is then unknown.
+export const reconstructSurface = (captures: StereoCapture[], size: number): StereoReconstruction | null => {
+  if (captures.length < MIN_CAPTURES) return null;
+
+  // Normal matrix LᵀL is the same for every pixel
+  const lamps = captures.map(({ lamp }) => [lamp.x, lamp.y, lamp.z]);
+  const gram = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+  lamps.forEach(l => {
+    for (let r = 0; r < 3; r++) {
+      for (let c = 0; c < 3; c++) gram[r * 3 + c] += l[r] * l[c];
+    }
+  });
+  const inverse = invert3(gram);
+  if (!inverse) return null;
+
+  const count = size * size;
+  const normals = new Float32Array(count * 3);
+  const albedo = new Float32Array(count);
+  let maxAlbedo = 0;
+
+  for (let p = 0; p < count; p++) {
+    const b = [0, 0, 0];
+    captures.forEach(({ levels }, k) => {
+      b[0] += lamps[k][0] * levels[p];
+      b[1] += lamps[k][1] * levels[p];
+      b[2] += lamps[k][2] * levels[p];
+    });
+    const gx = inverse[0] * b[0] + inverse[1] * b[1] + inverse[2] * b[2];
+    const gy = inverse[3] * b[0] + inverse[4] * b[1] + inverse[5] * b[2];
+    const gz = inverse[6] * b[0] + inverse[7] * b[1] + inverse[8] * b[2];
+    const rho = Math.hypot(gx, gy, gz);
+
+    // Background and fully shadowed pixels get a flat normal
+    const flat = rho < MIN_ALBEDO || gz <= 0;
+    normals[p * 3] = flat ? 0 : gx / rho;
+    normals[p * 3 + 1] = flat ? 0 : gy / rho;
+    normals[p * 3 + 2] = flat ? 1 : gz / rho;
+    albedo[p] = flat ? 0 : rho;
+    maxAlbedo = Math.max(maxAlbedo, albedo[p]);
+  }
+  if (maxAlbedo > 0) albedo.forEach((value, p) => (albedo[p] = value / maxAlbedo));
+
+  return { normals, albedo, curvature: normalCurvature(normals, size) };
+};
@@ -0,0 +1,53 @@
+import { PolarizationSettings } from '../types';
+import { MAX_GAIN } from './spectrum';
+
+// Share of light a real sheet polarizer leaks along its blocking axis
+const EXTINCTION = 0.005;
+// An ideal polarizer passes half of unpolarized light
+const UNPOLARIZED_PASS = 0.5;
+
+export const DEFAULT_POLARIZATION: PolarizationSettings = {
+  polarizer: false,
+  polarizerAngle: 0,
+  analyzer: false,
+  analyzerAngle: 90,
+};
+
+export interface PolarizationWeights {
+  specular: number; // Scales mirror-like reflection and direct backlight
+  diffuse: number; // Scales light scattered back out of the material
+  gain: number; // Camera gain that makes up for what the filters take
+}
+
+export const NO_POLARIZATION: PolarizationWeights = { specular: 1, diffuse: 1, gain: 1 };
+
+// Angle between polarizer and analyzer axes, folded into 0..90°
+export const crossingAngle = ({ polarizerAngle, analyzerAngle }: PolarizationSettings) => {
+  const delta = Math.abs(analyzerAngle - polarizerAngle) % 180;
+  return Math.min(delta, 180 - delta);
+};
+
+// Malus's law, with the leak of a real sheet polarizer
+const malus = (degrees: number) =>
+  EXTINCTION + (1 - EXTINCTION) * Math.cos((degrees * Math.PI) / 180) ** 2;
+
+// Share of a mirror reflection that passes the analyzer. Specular reflection
+// keeps the light's polarization, so this is what each traced ray carries.
+export const specularTransmission = (settings: PolarizationSettings) => {
+  if (!settings.analyzer) return 1;
+  return settings.polarizer ? malus(crossingAngle(settings)) : UNPOLARIZED_PASS;
+};
+
+// Light that enters the material and scatters back out is depolarized, so the
+// analyzer passes half of it at any angle while it can block the glare. Like
+// auto-exposure, gain is raised within limits to keep the diffuse level.
+export const polarizationWeights = (settings: PolarizationSettings): PolarizationWeights => {
+  const source = settings.polarizer ? UNPOLARIZED_PASS : 1;
+  const diffusePass = settings.analyzer ? UNPOLARIZED_PASS : 1;
+  const gain = Math.min(MAX_GAIN, 1 / (source * diffusePass));
+  return {
+    specular: source * specularTransmission(settings) * gain,
+    diffuse: source * diffusePass * gain,
+    gain,
+  };
+};
@@ -0,0 +1,36 @@
+import { CameraLevels, QuizGoal, QuizLevel, QuizProgress, QuizQuestion, QuizTopic } from '../types';
+
+// A region only counts as bright or dark with some margin, so a setting on
+// the edge of a transition is not graded by luck
+export const BRIGHT_LEVEL = 0.4;
+export const DARK_LEVEL = 0.15;
+
+const matchesLevel = (level: number | null, target?: QuizLevel) => {
+  if (!target) return true;
+  const value = level ?? 0;
+  return target === 'bright' ? value >= BRIGHT_LEVEL : value <= DARK_LEVEL;
+};
+
+export const meetsGoal = (goal: QuizGoal, levels: CameraLevels) =>
+  matchesLevel(levels.flat, goal.flat) &&
+  matchesLevel(levels.defect, goal.defect) &&
+  matchesLevel(levels.backdrop, goal.backdrop) &&
+  (goal.contrast === undefined || levels.defect - levels.flat >= goal.contrast);
+
+export interface TopicScore {
+  topic: QuizTopic;
+  solved: number;
+  total: number;
+}
+
+export const topicScores = (questions: QuizQuestion[], progress: QuizProgress): TopicScore[] => {
+  const topics = [...new Set(questions.map(question => question.topic))];
+  return topics.map(topic => {
+    const inTopic = questions.filter(question => question.topic === topic);
+    return {
+      topic,
+      solved: inTopic.filter(question => progress[question.id]?.solved).length,
+      total: inTopic.length,
+    };
+  });
+};
@@ -0,0 +1,251 @@
+import {
+  CameraAperture,
+  LightSource,
+  Point,
+  RayHit,
+  SurfaceSegment,
+  TracedRay,
+} from '../types';
+import { isCaptured } from './lens';
+
+const EPSILON = 1e-6;
+const MAX_BOUNCES = 4;
+
+// --- Vector helpers ---
+const add = (a: Point, b: Point): Point => ({ x: a.x + b.x, y: a.y + b.y });
+const sub = (a: Point, b: Point): Point => ({ x: a.x - b.x, y: a.y - b.y });
+const scale = (a: Point, k: number): Point => ({ x: a.x * k, y: a.y * k });
+const dot = (a: Point, b: Point) => a.x * b.x + a.y * b.y;
+const cross = (a: Point, b: Point) => a.x * b.y - a.y * b.x;
+
+export const normalize = (a: Point): Point => {
+  const len = Math.hypot(a.x, a.y);
+  return len < EPSILON ? { x: 0, y: 0 } : { x: a.x / len, y: a.y / len };
+};
+
+export const rotate = (a: Point, degrees: number): Point => {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return { x: a.x * cos - a.y * sin, y: a.x * sin + a.y * cos };
+};
+
+// Mirror reflection: angle of incidence = angle of reflection
+export const reflect = (direction: Point, normal: Point): Point =>
+  sub(direction, scale(normal, 2 * dot(direction, normal)));
+
+// --- Surface construction ---
+
+export interface DentProfileParams {
+  left: number;
+  right: number;
+  centerX: number;
+  surfaceY: number;
+  dentWidth: number;
+  dentDepth: number;
+}
+
+// Flat line with a V-dent in the middle, listed left to right
+export const buildDentProfile = ({
+  left,
+  right,
+  centerX,
+  surfaceY,
+  dentWidth,
+  dentDepth,
+}: DentProfileParams): Point[] => [
+  { x: left, y: surfaceY },
+  { x: centerX - dentWidth / 2, y: surfaceY },
+  { x: centerX, y: surfaceY + dentDepth },
+  { x: centerX + dentWidth / 2, y: surfaceY },
+  { x: right, y: surfaceY },
+];
+
+// Splits a left-to-right polyline into segments. With the material below the
+// line, (dy, -dx) always points out of it, even for vertical walls. Level
+// facets count as flat wherever they sit (e.g. the top of an embossed
+// character); every tilted facet belongs to a feature.
+export const toSegments = (profile: Point[]): SurfaceSegment[] =>
+  profile.slice(1).map((end, i) => {
+    const start = profile[i];
+    const isFlat = Math.abs(start.y - end.y) < EPSILON;
+    return {
+      start,
+      end,
+      normal: normalize({ x: end.y - start.y, y: -(end.x - start.x) }),
+      region: isFlat ? 'flat' : 'defect',
+    };
+  });
+
+// Closes a surface profile into a solid part between left and right, used
+// when light has to pass around the part (backlighting). The walls and the
+// underside absorb.
+export const buildPartOutline = (
+  profile: Point[],
+  left: number,
+  right: number,
+  bottomY: number
+): { outline: Point[]; segments: SurfaceSegment[] } => {
+  const interpolate = (x: number): Point => {
+    const i = profile.findIndex((p, k) => k > 0 && p.x >= x);
+    const a = profile[Math.max(0, i - 1)];
+    const b = profile[Math.max(0, i)];
+    const f = b.x === a.x ? 0 : (x - a.x) / (b.x - a.x);
+    return { x, y: a.y + (b.y - a.y) * f };
+  };
+  const top = [interpolate(left), ...profile.filter(p => p.x > left && p.x < right), interpolate(right)];
+  const outline = [...top, { x: right, y: bottomY }, { x: left, y: bottomY }, top[0]];
+  const segments = toSegments(outline).map((segment, i) =>
+    i < top.length - 1 ? segment : { ...segment, region: 'flat' as const, absorbs: true }
+  );
+  return { outline, segments };
+};
+
+export const profileToPath = (profile: Point[]) =>
+  profile.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+
+// --- Light sources ---
+
+// Places a beam on an arc around the target. 0° is straight down the optical
+// axis, 90° is grazing from the left, negative angles come from the right and
+// 180° shines straight up. The beam is narrowed as it tilts so it always
+// lights the same stretch of surface.
+export const createAngledLight = (
+  target: Point,
+  angle: number,
+  distance: number,
+  footprint: number,
+  rayCount: number
+): LightSource => {
+  const rad = (angle * Math.PI) / 180;
+  const direction = { x: Math.sin(rad), y: Math.cos(rad) };
+  return {
+    position: sub(target, scale(direction, distance)),
+    direction,
+    beamWidth: footprint * Math.abs(Math.cos(rad)),
+    spread: 0,
+    rayCount,
+    intensity: 1,
+    azimuth: 0,
+    azimuthCopies: 1,
+    sourceId: 0,
+  };
+};
+
+const castFan = (light: LightSource) => {
+  const across = { x: -light.direction.y, y: light.direction.x };
+  return Array.from({ length: light.rayCount }, (_, i) => {
+    const f = light.rayCount === 1 ? 0 : i / (light.rayCount - 1) - 0.5;
+    return {
+      origin: add(light.position, scale(across, f * light.beamWidth)),
+      direction: normalize(rotate(light.direction, f * 2 * light.spread)),
+    };
+  });
+};
+
+// --- Tracing ---
+
+interface Intersection {
+  t: number;
+  segment: SurfaceSegment;
+}
+
+const intersectSegment = (
+  origin: Point,
+  direction: Point,
+  start: Point,
+  end: Point
+): number | null => {
+  const edge = sub(end, start);
+  const denom = cross(direction, edge);
+  if (Math.abs(denom) < EPSILON) return null;
+  const offset = sub(start, origin);
+  const t = cross(offset, edge) / denom;
+  const u = cross(offset, direction) / denom;
+  if (t <= EPSILON || u < -EPSILON || u > 1 + EPSILON) return null;
+  return t;
+};
+
+const nearestHit = (
+  origin: Point,
+  direction: Point,
+  segments: SurfaceSegment[]
+): Intersection | null =>
+  segments.reduce<Intersection | null>((best, segment) => {
+    const t = intersectSegment(origin, direction, segment.start, segment.end);
+    return t !== null && (!best || t < best.t) ? { t, segment } : best;
+  }, null);
+
+// Distance along the ray until it leaves the drawing
+const exitDistance = (origin: Point, direction: Point, width: number, height: number) => {
+  const tx =
+    direction.x > EPSILON ? (width - origin.x) / direction.x
+    : direction.x < -EPSILON ? -origin.x / direction.x
+    : Infinity;
+  const ty =
+    direction.y > EPSILON ? (height - origin.y) / direction.y
+    : direction.y < -EPSILON ? -origin.y / direction.y
+    : Infinity;
+  return Math.max(0, Math.min(tx, ty));
+};
+
+// Returns the distance up to the lens plane if the lens images the ray from
+// its last point on the object (or its origin, for light that never hit it)
+const distanceToLens = (
+  origin: Point,
+  direction: Point,
+  camera: CameraAperture
+): number | null => {
+  if (!isCaptured(camera, origin.x, direction)) return null;
+  return (camera.position.y - origin.y) / direction.y;
+};
+
+const traceRay = (
+  origin: Point,
+  direction: Point,
+  segments: SurfaceSegment[],
+  camera: CameraAperture,
+  bounds: { width: number; height: number }
+): TracedRay => {
+  const path: Point[] = [origin];
+  const hits: RayHit[] = [];
+  let current = origin;
+  let heading = direction;
+
+  for (let bounce = 0; bounce <= MAX_BOUNCES; bounce++) {
+    const hit = nearestHit(current, heading, segments);
+    const toLens = distanceToLens(current, heading, camera);
+
+    if (toLens !== null && (!hit || toLens < hit.t)) {
+      path.push(add(current, scale(heading, toLens)));
+      return { path, hits, captured: true };
+    }
+
+    if (!hit) break;
+
+    const point = add(current, scale(heading, hit.t));
+    path.push(point);
+
+    // Hitting the underside of a facet means the ray is inside the material
+    if (hit.segment.absorbs || dot(heading, hit.segment.normal) >= 0) {
+      return { path, hits, captured: false };
+    }
+
+    hits.push({ point, normal: hit.segment.normal, incoming: heading, region: hit.segment.region });
+    heading = reflect(heading, hit.segment.normal);
+    current = point;
+  }
+
+  path.push(add(current, scale(heading, exitDistance(current, heading, bounds.width, bounds.height))));
+  return { path, hits, captured: false };
+};
+
+export const traceLight = (
+  light: LightSource,
+  segments: SurfaceSegment[],
+  camera: CameraAperture,
+  bounds: { width: number; height: number }
+): TracedRay[] =>
+  castFan(light).map(({ origin, direction }) =>
+    traceRay(origin, direction, segments, camera, bounds)
+  );
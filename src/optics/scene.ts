@@ -0,0 +1,91 @@
+import { CameraAperture, LightingMode, Material, Point, SurfaceRegion, SurfaceSegment, LightSource } from '../types';
+import { buildDentProfile, createAngledLight, toSegments } from './rayTracer';
+import { DEFAULT_MATERIAL, shadeNormal, toLights3D, toVec3 } from './materials';
+import { DEFAULT_LENS, bestFieldPoint, brightFieldLimit, chiefRay, deriveCamera } from './lens';
+import { NO_POLARIZATION, PolarizationWeights } from './polarization';
+
+// Shared layout of the ray diagram (SVG units, y grows downward)
+export const SCENE = {
+  width: 400,
+  height: 300,
+  centerX: 200,
+  surfaceY: 250,
+  cameraY: 60,
+  lightDistance: 150,
+  beamFootprint: 180,
+  rayCount: 12,
+};
+
+// Presets used by the Bright Field / Dark Field buttons (degrees from the optical axis)
+export const BRIGHT_FIELD_ANGLE = 0;
+export const DARK_FIELD_ANGLE = 73;
+
+export const DEFAULT_CAMERA: CameraAperture = deriveCamera(DEFAULT_LENS, { x: SCENE.centerX, y: SCENE.cameraY });
+
+export const DEFAULT_PROFILE: Point[] = buildDentProfile({
+  left: 20,
+  right: SCENE.width - 20,
+  centerX: SCENE.centerX,
+  surfaceY: SCENE.surfaceY,
+  dentWidth: 40,
+  dentDepth: 15,
+});
+
+export const FLAT_PROFILE: Point[] = [
+  { x: 20, y: SCENE.surfaceY },
+  { x: SCENE.width - 20, y: SCENE.surfaceY },
+];
+
+export const DEFAULT_SEGMENTS: SurfaceSegment[] = toSegments(DEFAULT_PROFILE);
+
+export const createSceneLight = (angle: number): LightSource =>
+  createAngledLight(
+    { x: SCENE.centerX, y: SCENE.surfaceY },
+    angle,
+    SCENE.lightDistance,
+    SCENE.beamFootprint,
+    SCENE.rayCount
+  );
+
+// The flat surface mirrors the light at the same angle on the other side of
+// the axis, so it only looks bright while some chief ray can take it in.
+export const classifyIllumination = (angle: number, camera: CameraAperture = DEFAULT_CAMERA) =>
+  angle <= brightFieldLimit(camera) ? LightingMode.BRIGHT_FIELD : LightingMode.DARK_FIELD;
+
+// Brightness (0..1) each region would show in the camera. Every lit facet is
+// shaded with the material's specular lobe and diffuse part, and the
+// brightest facet of the region wins. Each facet is seen along the chief ray
+// that best matches its reflection; facets outside the field do not count.
+// Unlike counting traced rays this varies smoothly with the light angle.
+// Lamps turned around the axis are shaded in 3D, where their mirror
+// direction leaves the diagram plane. Polarizers weigh glare and diffuse
+// light separately.
+export const measureRegionBrightness = (
+  light: LightSource,
+  segments: SurfaceSegment[] = DEFAULT_SEGMENTS,
+  camera: CameraAperture = DEFAULT_CAMERA,
+  material: Material = DEFAULT_MATERIAL,
+  polarization: PolarizationWeights = NO_POLARIZATION
+): Record<SurfaceRegion, number> => {
+  const brightness: Record<SurfaceRegion, number> = { flat: 0, defect: 0 };
+  const samples = toLights3D([light]);
+
+  segments.forEach(segment => {
+    if (segment.absorbs) return;
+    const normal = toVec3(segment.normal);
+    let level = 0;
+    for (const { direction, share, intensity } of samples) {
+      const dotDN = direction.x * normal.x + direction.y * normal.y + direction.z * normal.z;
+      // Mirror direction seen in the diagram plane picks the field point
+      const mirror = { x: direction.x - 2 * dotDN * normal.x, y: -(direction.z - 2 * dotDN * normal.z) };
+      const fieldX = bestFieldPoint(camera, segment.start.x, segment.end.x, mirror);
+      if (fieldX === null) return;
+      const view = toVec3(chiefRay(camera, fieldX));
+      const { specular, diffuse } = shadeNormal(direction, normal, material, view, camera.acceptanceAngle);
+      level += (specular * polarization.specular + diffuse * share * polarization.diffuse) * intensity;
+    }
+    brightness[segment.region] = Math.max(brightness[segment.region], level);
+  });
+
+  return brightness;
+};
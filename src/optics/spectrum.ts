@@ -0,0 +1,74 @@
+import { CameraFilter, LightColor, Material, SpectralBand, Spectrum } from '../types';
+
+export const SPECTRAL_BANDS: SpectralBand[] = ['uv', 'blue', 'green', 'red', 'ir'];
+
+// Center wavelength of each band in nm
+export const WAVELENGTHS: Spectrum = { uv: 365, blue: 470, green: 525, red: 625, ir: 850 };
+
+export const flatSpectrum = (value: number): Spectrum => ({ uv: value, blue: value, green: value, red: value, ir: value });
+
+const bandOnly = (band: SpectralBand): Spectrum => ({ ...flatSpectrum(0), [band]: 1 });
+
+// Emission of each light; a white LED has almost nothing outside the visible
+const LIGHT_SPECTRA: Record<LightColor, Spectrum> = {
+  white: { uv: 0, blue: 1, green: 1, red: 1, ir: 0.05 },
+  uv: bandOnly('uv'),
+  blue: bandOnly('blue'),
+  green: bandOnly('green'),
+  red: bandOnly('red'),
+  ir: bandOnly('ir'),
+};
+
+// Quantum efficiency of a typical monochrome CMOS sensor
+const SENSOR_RESPONSE: Spectrum = { uv: 0.25, blue: 0.7, green: 0.95, red: 1, ir: 0.35 };
+
+// Bandpass filters leak a little outside their band
+const FILTER_BLOCKING = 0.01;
+const FILTER_PEAK = 0.9;
+
+// Auto-exposure can lift a dim image by at most this factor
+export const MAX_GAIN = 4;
+
+// Reference wavelength at which the catalogue's lobe widths are given
+const REFERENCE_WAVELENGTH = 525;
+
+export interface SpectralResponse {
+  weights: Spectrum; // Share of the recorded signal each band contributes (sums to 1)
+  wavelength: number; // Signal-weighted mean wavelength in nm
+  exposure: number; // Signal after auto-exposure: 1 unless the filter blocks the light
+}
+
+const filterTransmission = (filter: CameraFilter): Spectrum =>
+  filter === 'none'
+    ? flatSpectrum(1)
+    : { ...flatSpectrum(FILTER_BLOCKING), [filter]: FILTER_PEAK };
+
+// What reaches the sensor for a light color seen through a filter. Exposure
+// is set for the unfiltered light and then raised, within limits, to make
+// up for what the filter takes away.
+export const spectralResponse = (light: LightColor, filter: CameraFilter): SpectralResponse => {
+  const transmission = filterTransmission(filter);
+  const signal = (band: SpectralBand, filtered: boolean) =>
+    LIGHT_SPECTRA[light][band] * SENSOR_RESPONSE[band] * (filtered ? transmission[band] : 1);
+
+  const total = SPECTRAL_BANDS.reduce((sum, band) => sum + signal(band, true), 0);
+  const unfiltered = SPECTRAL_BANDS.reduce((sum, band) => sum + signal(band, false), 0);
+  if (total === 0) return { weights: flatSpectrum(0), wavelength: REFERENCE_WAVELENGTH, exposure: 0 };
+
+  const weights = flatSpectrum(0);
+  SPECTRAL_BANDS.forEach(band => {
+    weights[band] = signal(band, true) / total;
+  });
+  const wavelength = SPECTRAL_BANDS.reduce((sum, band) => sum + weights[band] * WAVELENGTHS[band], 0);
+  const exposure = Math.min(1, (MAX_GAIN * total) / unfiltered);
+  return { weights, wavelength, exposure };
+};
+
+// The material as a monochrome camera sees it under this light: the diffuse
+// color collapses to one albedo, and fine roughness scatters short waves
+// more widely than long ones.
+export const applySpectrum = (material: Material, response: SpectralResponse): Material => ({
+  ...material,
+  albedo: material.albedo * SPECTRAL_BANDS.reduce((sum, band) => sum + response.weights[band] * material.color[band], 0),
+  lobeWidth: material.lobeWidth * (REFERENCE_WAVELENGTH / response.wavelength),
+});
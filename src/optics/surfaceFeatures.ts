@@ -0,0 +1,96 @@
+import { Point, SurfaceFeatureKind } from '../types';
+import { FLAT_PROFILE } from './scene';
+
+// Vertical range a vertex may be dragged to, relative to the base surface
+export const MAX_RAISE = 50;
+export const MAX_SINK = 40;
+
+const PIT_SAMPLES = 8;
+
+export interface FeatureParams {
+  kind: SurfaceFeatureKind;
+  centerX: number;
+  width: number;
+  depth: number;
+}
+
+// Height of the profile at x, interpolated between neighbouring vertices
+export const profileHeightAt = (profile: Point[], x: number) => {
+  const i = profile.findIndex(p => p.x >= x);
+  if (i <= 0) return profile[Math.max(0, i)].y;
+  const a = profile[i - 1];
+  const b = profile[i];
+  return b.x === a.x ? b.y : a.y + ((b.y - a.y) * (x - a.x)) / (b.x - a.x);
+};
+
+// Vertices of a feature cut into (positive depth) or raised from a surface at height y
+const featureVertices = ({ kind, centerX: c, width: w, depth: d }: FeatureParams, y: number): Point[] => {
+  const left = c - w / 2;
+  const right = c + w / 2;
+  switch (kind) {
+    case 'v-scratch':
+      return [{ x: left, y }, { x: c, y: y + d }, { x: right, y }];
+    case 'rounded-pit':
+      return Array.from({ length: PIT_SAMPLES + 1 }, (_, i) => {
+        const t = i / PIT_SAMPLES;
+        return { x: left + w * t, y: y + d * Math.sin(Math.PI * t) };
+      });
+    case 'embossed': {
+      const chamfer = w * 0.15;
+      return [
+        { x: left, y },
+        { x: left + chamfer, y: y - d },
+        { x: right - chamfer, y: y - d },
+        { x: right, y },
+      ];
+    }
+    case 'burr':
+      // Thin lip thrown up on one side, steep on the trailing edge
+      return [{ x: left, y }, { x: c + w * 0.3, y: y - d }, { x: right, y }];
+    case 'step':
+      return [{ x: left, y }, { x: right, y: y + d }];
+  }
+};
+
+// Replaces whatever the profile has between the feature's edges. A step edge
+// also lowers everything to its right; the end points are never removed.
+export const insertFeature = (profile: Point[], params: FeatureParams): Point[] => {
+  const first = profile[0];
+  const last = profile[profile.length - 1];
+  const left = Math.max(first.x + 1, params.centerX - params.width / 2);
+  const right = Math.min(last.x - 1, params.centerX + params.width / 2);
+  const clamped = { ...params, centerX: (left + right) / 2, width: right - left };
+
+  const vertices = featureVertices(clamped, profileHeightAt(profile, left));
+  const before = profile.filter(p => p.x < left);
+  const shift = params.kind === 'step' ? params.depth : 0;
+  const after = profile
+    .filter(p => p.x > right)
+    .map(p => ({ x: p.x, y: p.y + shift }));
+
+  return [...before, ...vertices, ...after];
+};
+
+// The default flat part with features cut into it, left to right
+export const flatPartWith = (...features: FeatureParams[]) => features.reduce(insertFeature, FLAT_PROFILE);
+
+// Inserts a vertex between the neighbours that bracket it horizontally
+export const addVertex = (profile: Point[], point: Point): Point[] => {
+  const i = profile.findIndex(p => p.x > point.x);
+  if (i <= 0) return profile;
+  return [...profile.slice(0, i), point, ...profile.slice(i)];
+};
+
+// Moves a vertex while keeping the profile a left-to-right polyline. The two
+// end points stay pinned horizontally so the part keeps its size.
+export const moveVertex = (profile: Point[], index: number, point: Point, baseY: number): Point[] => {
+  const isEnd = index === 0 || index === profile.length - 1;
+  const x = isEnd
+    ? profile[index].x
+    : Math.min(profile[index + 1].x, Math.max(profile[index - 1].x, point.x));
+  const y = Math.min(baseY + MAX_SINK, Math.max(baseY - MAX_RAISE, point.y));
+  return profile.map((p, i) => (i === index ? { x, y } : p));
+};
+
+export const removeVertex = (profile: Point[], index: number): Point[] =>
+  index === 0 || index === profile.length - 1 ? profile : profile.filter((_, i) => i !== index);
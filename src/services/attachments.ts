@@ -0,0 +1,25 @@
+import { ChatAttachment } from '../types';
+
+// Longest side of a photo as sent to the model: enough to judge glare and
+// contrast, small enough to keep requests and saved history light
+const MAX_PHOTO_SIZE = 1024;
+const JPEG_QUALITY = 0.85;
+
+export const MAX_ATTACHMENTS = 3;
+
+export const readPhoto = async (file: File): Promise<ChatAttachment> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_PHOTO_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available in this browser.');
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const url = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+  return { mimeType: 'image/jpeg', data: url.slice(url.indexOf(',') + 1), name: file.name };
+};
+
+export const attachmentUrl = ({ mimeType, data }: ChatAttachment) => `data:${mimeType};base64,${data}`;
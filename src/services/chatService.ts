@@ -0,0 +1,131 @@
+import { ChatMessage, ChatResult, Language, SceneSnapshot, SimulatorAction } from "../types";
+import { translate } from "../i18n";
+import { buildSystemInstruction } from "./tutorPrompt";
+import { ChatError, answeredTurns, createProvider, providerConfig } from "./providers";
+import { SIMULATOR_TOOLS, describeActionForModel, toSimulatorAction } from "./simulatorTools";
+
+// The model backend is chosen at build time. By default questions go to our
+// /api/chat server, so no key ends up in the bundle.
+const provider = createProvider(providerConfig({
+  provider: import.meta.env.VITE_AI_PROVIDER,
+  model: import.meta.env.VITE_AI_MODEL,
+  baseUrl: import.meta.env.VITE_AI_BASE_URL,
+  apiKey: import.meta.env.VITE_AI_API_KEY,
+}, 'proxy'));
+
+// Failed attempts are retried after 1 s, then 2 s, unless the backend asks
+// for a longer wait than we are willing to sit through
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 1000;
+const MAX_RETRY_WAIT_MS = 10_000;
+
+// Questions allowed per minute from this browser, below the server's own
+// limit so a student hears it from us first
+const QUESTIONS_PER_MINUTE = 8;
+const recentQuestions: number[] = [];
+
+// Milliseconds until another question may be asked, or 0 after counting it
+const throttle = (now = Date.now()) => {
+  while (recentQuestions.length > 0 && recentQuestions[0] <= now - 60_000) recentQuestions.shift();
+  if (recentQuestions.length >= QUESTIONS_PER_MINUTE) return recentQuestions[0] + 60_000 - now;
+  recentQuestions.push(now);
+  return 0;
+};
+
+// Resolves early when aborted, so Stop does not wait out a backoff
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+// fetch rejects with a TypeError when the connection fails or drops
+const toChatError = (error: unknown) =>
+  error instanceof ChatError ? error
+    : new ChatError(error instanceof TypeError ? 'network' : 'unknown', error instanceof Error ? error.message : String(error));
+
+// A rate limit that does not say how long it lasts gets the usual backoff
+const isTransient = ({ kind, retryAfterMs = 0 }: ChatError) =>
+  kind === 'network' || ((kind === 'quota' || kind === 'throttled') && retryAfterMs <= MAX_RETRY_WAIT_MS);
+
+// Only questions that got an answer with text are sent, so user and model
+// turns alternate as Gemini requires; failed or dropped questions and their
+// error notes are left out. An answer that only used tools is sent as what
+// it did. Earlier photos are not sent again, which keeps every request
+// small; the answers given to them already describe what they showed.
+const toHistory = (history: ChatMessage[]): ChatMessage[] =>
+  answeredTurns(history.map(({ role, text, attachments, actions }) => ({
+    role,
+    text: attachments?.length ? `${text}\n[${attachments.length} photo(s) attached]`
+      : role === 'model' && !text.trim() && actions ? actions.map(describeActionForModel).join(' ')
+        : text,
+  })));
+
+// Streams the answer into onText as it arrives and resolves with the full
+// text, or with why there is none. Aborting resolves with whatever had
+// arrived so far. The scene is the simulator as it is when the question is
+// sent; changes the model asks for are handed to onAction as they arrive.
+// A failure is retried only while nothing has arrived, so the student never
+// sees an answer start over.
+export const askOpticsExpert = async (
+  question: ChatMessage,
+  history: ChatMessage[],
+  language: Language,
+  scene: SceneSnapshot,
+  onText: (text: string) => void,
+  onAction: (action: SimulatorAction) => void,
+  signal?: AbortSignal
+): Promise<ChatResult> => {
+  const wait = throttle();
+  if (wait > 0) return { kind: 'throttled', text: '', retryAfterMs: wait };
+
+  const systemInstruction = buildSystemInstruction(scene, language);
+
+  let text = '';
+  let acted = false;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const stream = provider.stream({
+        system: systemInstruction,
+        scene,
+        language,
+        history: toHistory(history),
+        query: question.text,
+        attachments: question.attachments ?? [],
+        tools: SIMULATOR_TOOLS,
+        temperature: 0.7,
+        signal,
+      });
+
+      for await (const event of stream) {
+        if (signal?.aborted) break;
+        if (event.type === 'text') {
+          text += event.text;
+          onText(text);
+        } else {
+          const action = toSimulatorAction(event.call);
+          if (action) {
+            acted = true;
+            onAction(action);
+          }
+        }
+      }
+
+      // An answer that only changed the simulator needs no apology
+      return { kind: 'success', text: text || (signal?.aborted || acted ? '' : translate(language, 'ai.emptyResponse')) };
+
+    } catch (caught) {
+      if (signal?.aborted) return { kind: 'success', text };
+      const error = toChatError(caught);
+      console.error(`AI provider error (attempt ${attempt}):`, caught);
+      if (attempt >= MAX_ATTEMPTS || text || acted || !isTransient(error)) {
+        return { kind: error.kind, text, ...(error.retryAfterMs !== undefined && { retryAfterMs: error.retryAfterMs }) };
+      }
+      await sleep(error.retryAfterMs ?? RETRY_BASE_MS * 2 ** (attempt - 1), signal);
+      if (signal?.aborted) return { kind: 'success', text };
+    }
+  }
+};
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { ChatMessage, Conversation } from '../types';
+
+const STORAGE_KEY = 'visionoptics.conversations';
+const TITLE_LENGTH = 40;
+
+const isConversation = (value: unknown): value is Conversation => {
+  const conversation = value as Conversation;
+  return !!conversation && typeof conversation.id === 'string' && Array.isArray(conversation.messages);
+};
+
+// Newest first. Like quiz progress, unreadable storage starts an empty list.
+export const loadConversations = (): Conversation[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isConversation).sort((a, b) => b.updatedAt - a.updatedAt) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Photos take most of the space, so when storage is full the history is
+// kept without them rather than not at all
+export const saveConversations = (conversations: Conversation[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(conversations));
+  } catch {
+    try {
+      const textOnly = conversations.map(conversation => ({
+        ...conversation,
+        messages: conversation.messages.map(msg => ({ ...msg, attachments: undefined })),
+      }));
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(textOnly));
+    } catch {
+      // Full or blocked storage only costs the history, not the chat
+    }
+  }
+};
+
+export const createConversation = (): Conversation => ({
+  id: crypto.randomUUID(),
+  title: '',
+  messages: [],
+  updatedAt: Date.now(),
+});
+
+// Named after the question that started it
+export const titleFrom = (question: string) => {
+  const line = question.trim().split('\n')[0];
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH).trimEnd()}…` : line;
+};
+
+export interface ExportLabels {
+  user: string;
+  model: string;
+  stopped: string;
+}
+
+// Exports leave out failed questions' error notes
+const answered = (messages: ChatMessage[]) => messages.filter(msg => msg.role !== 'system');
+
+export const toMarkdown = ({ title, messages, updatedAt }: Conversation, labels: ExportLabels) =>
+  [
+    `# ${title}`,
+    `_${new Date(updatedAt).toLocaleString()}_`,
+    ...answered(messages).map(msg =>
+      `**${msg.role === 'user' ? labels.user : labels.model}:**\n\n` +
+      (msg.attachments ?? []).map(photo => `![${photo.name}](data:${photo.mimeType};base64,${photo.data})\n\n`).join('') +
+      `${msg.text}${msg.stopped ? `\n\n_(${labels.stopped})_` : ''}`
+    ),
+  ].join('\n\n') + '\n';
+
+export const toJson = ({ title, messages, updatedAt }: Conversation) =>
+  JSON.stringify({ title, updatedAt: new Date(updatedAt).toISOString(), messages: answered(messages) }, null, 2);
+
+// Saves text as a file through a temporary link
+export const downloadText = (text: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Keeps letters of every script so Chinese or Japanese titles survive
+export const fileNameFor = (title: string, extension: string) =>
+  `${title.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'conversation'}.${extension}`;
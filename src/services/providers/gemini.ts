@@ -0,0 +1,51 @@
+import { ApiError, GoogleGenAI } from '@google/genai';
+import { ChatError, ChatProvider, errorKindFor } from './provider';
+
+// Finish reasons that mean the answer was withheld rather than finished
+const BLOCKED_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+// Gemini answers a wrong key with 400 rather than 401
+const toChatError = (error: ApiError) =>
+  new ChatError(error.status === 400 && /API key/i.test(error.message) ? 'auth' : errorKindFor(error.status), error.message);
+
+export const createGeminiProvider = (apiKey: string, model: string): ChatProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    stream: async function* ({ system, history, query, attachments, tools, temperature, signal }) {
+      const contents = [
+        ...history.map(msg => ({ role: msg.role, parts: [{ text: msg.text }] })),
+        {
+          role: 'user',
+          parts: [{ text: query }, ...attachments.map(({ mimeType, data }) => ({ inlineData: { mimeType, data } }))],
+        },
+      ];
+      try {
+        const stream = await ai.models.generateContentStream({
+          model,
+          contents,
+          config: {
+            systemInstruction: system,
+            temperature,
+            abortSignal: signal,
+            ...(tools.length > 0 && {
+              tools: [{
+                functionDeclarations: tools.map(({ name, description, parameters }) => ({ name, description, parametersJsonSchema: parameters })),
+              }],
+            }),
+          },
+        });
+        for await (const chunk of stream) {
+          const blocked = chunk.promptFeedback?.blockReason ?? chunk.candidates?.find(({ finishReason }) => finishReason && BLOCKED_REASONS.includes(finishReason))?.finishReason;
+          if (blocked) throw new ChatError('blocked', `Gemini withheld the answer: ${blocked}`);
+          // Calls arrive whole, each in a single chunk
+          for (const call of chunk.functionCalls ?? []) {
+            if (call.name) yield { type: 'call', call: { name: call.name, args: call.args ?? {} } };
+          }
+          if (chunk.text) yield { type: 'text', text: chunk.text };
+        }
+      } catch (error) {
+        throw error instanceof ApiError ? toChatError(error) : error;
+      }
+    },
+  };
+};
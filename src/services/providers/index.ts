@@ -0,0 +1,71 @@
+import { ChatProvider } from './provider';
+import { createGeminiProvider } from './gemini';
+import { createOpenAIProvider } from './openai';
+import { createOllamaProvider } from './ollama';
+import { createMockProvider } from './mock';
+import { createProxyProvider } from './proxy';
+
+export type { ChatEvent, ChatProvider, ChatRequest, ToolCall, ToolDeclaration } from './provider';
+export { ChatError, answeredTurns } from './provider';
+
+export type ProviderKind = 'proxy' | 'gemini' | 'openai' | 'ollama' | 'mock';
+
+const PROVIDER_KINDS: ProviderKind[] = ['proxy', 'gemini', 'openai', 'ollama', 'mock'];
+
+const DEFAULT_MODELS: Record<ProviderKind, string> = {
+  proxy: '', // The server decides
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  ollama: 'llama3.1',
+  mock: 'mock',
+};
+
+const DEFAULT_BASE_URLS: Partial<Record<ProviderKind, string>> = {
+  openai: 'https://api.openai.com/v1',
+  ollama: 'http://localhost:11434',
+};
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  model: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+// Raw settings as they come from the environment; anything left out gets
+// the provider's default
+export interface ProviderSettings {
+  provider?: string;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export const providerConfig = (settings: ProviderSettings, fallback: ProviderKind): ProviderConfig => {
+  const requested = settings.provider?.toLowerCase() || fallback;
+  const kind = PROVIDER_KINDS.find(candidate => candidate === requested);
+  if (!kind) console.warn(`Unknown AI provider "${requested}", using ${fallback}`);
+  const chosen = kind ?? fallback;
+  return {
+    kind: chosen,
+    model: settings.model || DEFAULT_MODELS[chosen],
+    // Without a trailing slash, so endpoint paths can be appended
+    baseUrl: (settings.baseUrl || DEFAULT_BASE_URLS[chosen] || '').replace(/\/+$/, ''),
+    apiKey: settings.apiKey || '',
+  };
+};
+
+export const createProvider = ({ kind, model, baseUrl, apiKey }: ProviderConfig): ChatProvider => {
+  switch (kind) {
+    case 'proxy':
+      return createProxyProvider(baseUrl);
+    case 'gemini':
+      return createGeminiProvider(apiKey, model);
+    case 'openai':
+      return createOpenAIProvider(baseUrl, model, apiKey || undefined);
+    case 'ollama':
+      return createOllamaProvider(baseUrl, model);
+    case 'mock':
+      return createMockProvider();
+  }
+};
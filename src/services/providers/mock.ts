@@ -0,0 +1,52 @@
+import { ChatProvider, ToolCall } from './provider';
+
+// Delay between streamed words, so the chat's streaming and Stop button
+// behave as they would with a real model
+const WORD_DELAY_MS = 25;
+
+// Canned answers picked by the first pattern the question matches
+const ANSWERS: { match: RegExp; text: string }[] = [
+  {
+    match: /dark/i,
+    text: '- In dark field the lamp sits far from the optical axis.\n- Flat areas mirror the light away from the lens, so they look dark.\n- Edges and scratches tilt some light back into the lens, so they glow.',
+  },
+  {
+    match: /bright|coaxial/i,
+    text: '- In bright field the light arrives along the optical axis.\n- Flat areas mirror it straight back into the lens and look bright.\n- Tilted defect walls send it elsewhere, so they show up dark.',
+  },
+  {
+    match: /scratch|defect|dent|pit/i,
+    text: '- A defect is visible when its walls send light somewhere different from the flat surface.\n- Try a low light angle: the walls then catch light the flat surface misses.',
+  },
+];
+
+const PHOTO_ANSWER = '- The photo shows a bright hotspot where the lamp mirrors straight into the lens: that glare hides the surface.\n- Try **dome** or **coaxial** lighting for an even field, or **dark field** to make scratches stand out.';
+
+// Simulator changes made when the question asks for them and the tool is offered
+const CALLS: { match: RegExp; call: ToolCall }[] = [
+  { match: /dark field/i, call: { name: 'set_lighting_mode', args: { mode: 'DARK_FIELD' } } },
+  { match: /bright field/i, call: { name: 'set_lighting_mode', args: { mode: 'BRIGHT_FIELD' } } },
+  { match: /scratch/i, call: { name: 'highlight_diagram', args: { target: 'defect' } } },
+];
+
+const FALLBACK = '- Angle of incidence equals angle of reflection: $\\theta_i = \\theta_r$.\n- Whether a region looks bright depends on whether its reflection reaches the lens.';
+
+// Answers without any network, always with the same text for the same
+// question and scene. It only speaks English.
+export const createMockProvider = (): ChatProvider => ({
+  stream: async function* ({ system, query, attachments, tools, signal }) {
+    const answer = attachments.length > 0
+      ? PHOTO_ANSWER
+      : ANSWERS.find(({ match }) => match.test(query))?.text ?? FALLBACK;
+    const lighting = system.match(/- Lighting: (.*)/)?.[1];
+    const text = `${answer}${lighting ? `\n- (Mock tutor) The simulator is set to ${lighting}.` : ''}`;
+    for (const word of text.split(/(?<=\s)/)) {
+      if (signal?.aborted) return;
+      await new Promise(resolve => setTimeout(resolve, WORD_DELAY_MS));
+      yield { type: 'text', text: word };
+    }
+    for (const { match, call } of CALLS) {
+      if (match.test(query) && tools.some(tool => tool.name === call.name)) yield { type: 'call', call };
+    }
+  },
+});
@@ -0,0 +1,45 @@
+import { ChatError, ChatProvider, postJson, readLines, toFunctionTools, toRoleHistory } from './provider';
+
+// Ollama sends only a message for errors inside the stream, so the cause is
+// read from its wording
+const toStreamError = (message: unknown) => {
+  const text = String(message);
+  const kind = /busy|overloaded|timed? ?out|connection|unavailable/i.test(text) ? 'network'
+    : /unauthori[sz]ed|forbidden/i.test(text) ? 'auth'
+      : /rate limit|too many requests/i.test(text) ? 'quota'
+        : 'unknown'; // e.g. a model that is not pulled
+  return new ChatError(kind, text);
+};
+
+export const createOllamaProvider = (baseUrl: string, model: string): ChatProvider => ({
+  stream: async function* (request) {
+    const { query, attachments } = request;
+    const messages = [
+      ...toRoleHistory(request),
+      // Ollama takes photos as bare base64 next to the text
+      { role: 'user', content: query, ...(attachments.length > 0 && { images: attachments.map(photo => photo.data) }) },
+    ];
+    const body = await postJson(
+      `${baseUrl}/api/chat`,
+      {
+        model,
+        messages,
+        options: { temperature: request.temperature },
+        stream: true,
+        ...(request.tools.length > 0 && { tools: toFunctionTools(request.tools) }),
+      },
+      request.signal
+    );
+    // One JSON object per line; the last one has done set
+    for await (const line of readLines(body)) {
+      const event = JSON.parse(line);
+      if (event.error) throw toStreamError(event.error);
+      // Calls arrive whole, with their arguments already parsed
+      for (const { function: call } of event.message?.tool_calls ?? []) {
+        yield { type: 'call', call: { name: call.name, args: call.arguments ?? {} } };
+      }
+      if (event.message?.content) yield { type: 'text', text: event.message.content };
+      if (event.done) return;
+    }
+  },
+});
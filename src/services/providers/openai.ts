@@ -0,0 +1,78 @@
+import { ChatError, ChatProvider, ToolCall, errorKindFor, postJson, readLines, toFunctionTools, toRoleHistory } from './provider';
+
+// An error sent inside the stream. OpenAI names its cause in code and type;
+// vLLM and llama.cpp put the HTTP status in code instead.
+const toStreamError = (error: unknown) => {
+  const { message, code, type } = (typeof error === 'object' && error ? error : { message: String(error) }) as
+    { message?: unknown; code?: unknown; type?: unknown };
+  const status = Number(code);
+  const cause = `${code ?? ''} ${type ?? ''}`;
+  const kind = Number.isInteger(status) && status >= 400 ? errorKindFor(status)
+    : /rate_limit|quota/i.test(cause) ? 'quota'
+      : /auth|api_key|permission/i.test(cause) ? 'auth'
+        : /content_filter|content_policy/i.test(cause) ? 'blocked'
+          : /server_error|overloaded|timeout/i.test(cause) ? 'network'
+            : 'unknown';
+  return new ChatError(kind, typeof message === 'string' ? message : String(error));
+};
+
+// Any server speaking the OpenAI chat completions API (vLLM, LM Studio,
+// llama.cpp, OpenAI itself). baseUrl ends before /chat/completions.
+export const createOpenAIProvider = (baseUrl: string, model: string, apiKey?: string): ChatProvider => ({
+  stream: async function* (request) {
+    const { query, attachments } = request;
+    // Photos go in as data URLs next to the text
+    const content = attachments.length === 0 ? query : [
+      { type: 'text', text: query },
+      ...attachments.map(({ mimeType, data }) => ({ type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } })),
+    ];
+    const messages = [...toRoleHistory(request), { role: 'user', content }];
+    const body = await postJson(
+      `${baseUrl}/chat/completions`,
+      {
+        model,
+        messages,
+        temperature: request.temperature,
+        stream: true,
+        ...(request.tools.length > 0 && { tools: toFunctionTools(request.tools) }),
+      },
+      request.signal,
+      apiKey
+    );
+    // Function calls stream in as fragments of their JSON arguments, keyed
+    // by index; they are complete once the stream ends
+    const calls: { name: string; args: string }[] = [];
+    // Server-sent events: one "data: {json}" line per delta, then "data: [DONE]"
+    for await (const line of readLines(body)) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice('data:'.length).trim();
+      if (data === '[DONE]') break;
+      const event = JSON.parse(data);
+      if (event.error) throw toStreamError(event.error);
+      if (event.choices?.[0]?.finish_reason === 'content_filter') throw new ChatError('blocked', 'The answer was withheld by the content filter');
+      const delta = event.choices?.[0]?.delta;
+      for (const fragment of delta?.tool_calls ?? []) {
+        const call = (calls[fragment.index ?? 0] ??= { name: '', args: '' });
+        call.name += fragment.function?.name ?? '';
+        call.args += fragment.function?.arguments ?? '';
+      }
+      if (delta?.content) yield { type: 'text', text: delta.content };
+    }
+    for (const { name, args } of calls) {
+      let parsed: unknown = null;
+      try {
+        parsed = args ? JSON.parse(args) : {};
+      } catch {
+        // Checked below
+      }
+      // Small models sometimes write broken arguments; that call is skipped
+      // rather than losing the answer around it
+      if (!parsed || typeof parsed !== 'object') {
+        console.warn(`Ignoring ${name} call with malformed arguments:`, args);
+        continue;
+      }
+      const call: ToolCall = { name, args: parsed as Record<string, unknown> };
+      yield { type: 'call', call };
+    }
+  },
+});
@@ -0,0 +1,145 @@
+import { ChatAttachment, ChatErrorKind, ChatMessage, Language, SceneSnapshot } from '../../types';
+
+// One question to the model, with everything it needs to answer it
+export interface ChatRequest {
+  system: string;
+  // What system was written from, for the proxy: our server writes the
+  // instructions itself
+  scene: SceneSnapshot;
+  language: Language;
+  history: ChatMessage[]; // Earlier turns, oldest first
+  query: string;
+  attachments: ChatAttachment[]; // Photos that go with the query
+  tools: ToolDeclaration[]; // Functions the model may call instead of only answering
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+// A function offered to the model; parameters is a JSON schema object
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// Piece of the answer as it arrives: more text, or a finished function call
+export type ChatEvent = { type: 'text'; text: string } | { type: 'call'; call: ToolCall };
+
+// A model backend. stream yields the answer as it arrives and throws when
+// the backend cannot be reached or refuses the request.
+export interface ChatProvider {
+  stream: (request: ChatRequest) => AsyncIterable<ChatEvent>;
+}
+
+// A failure with a known cause. retryAfterMs is set when the backend said
+// how long to wait before asking again.
+export class ChatError extends Error {
+  kind: ChatErrorKind;
+  retryAfterMs?: number;
+
+  constructor(kind: ChatErrorKind, message: string, retryAfterMs?: number) {
+    super(message);
+    this.kind = kind;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const ERROR_KINDS: ChatErrorKind[] = ['auth', 'quota', 'network', 'blocked', 'throttled', 'unknown'];
+
+export const isErrorKind = (value: unknown): value is ChatErrorKind => ERROR_KINDS.includes(value as ChatErrorKind);
+
+// What an HTTP status from a model backend means for the student; server
+// errors and timeouts are usually over by the next attempt
+export const errorKindFor = (status: number): ChatErrorKind =>
+  status === 401 || status === 403 ? 'auth'
+    : status === 429 ? 'quota'
+      : status === 408 || status >= 500 ? 'network'
+        : 'unknown';
+
+// Retry-After in seconds; the HTTP-date form is not used by the backends we talk to
+const retryAfter = (response: Response) => {
+  const seconds = Number(response.headers.get('Retry-After'));
+  return seconds > 0 ? seconds * 1000 : undefined;
+};
+
+// The OpenAI shape of a function offered to the model, which Ollama shares
+export const toFunctionTools = (tools: ToolDeclaration[]) =>
+  tools.map(({ name, description, parameters }) => ({ type: 'function', function: { name, description, parameters } }));
+
+// Question-and-answer pairs with text on both sides, so user and model turns
+// alternate; Gemini refuses empty text and two user turns in a row
+export const answeredTurns = (history: ChatMessage[]) =>
+  history.flatMap((msg, i) => {
+    const answer = history[i + 1];
+    return msg.role === 'user' && msg.text.trim() && answer?.role === 'model' && answer.text.trim() ? [msg, answer] : [];
+  });
+
+// The system/user/assistant messages before the query, shared by the OpenAI
+// and Ollama APIs; each adds the query in its own way since photos differ
+export const toRoleHistory = ({ system, history }: ChatRequest) => [
+  { role: 'system', content: system },
+  ...history.map(msg => ({ role: msg.role === 'model' ? 'assistant' : 'user', content: msg.text })),
+];
+
+export const postJson = async (url: string, body: unknown, signal?: AbortSignal, apiKey?: string) => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new ChatError('network', `${url} could not be reached: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!response.ok || !response.body) {
+    // Prefer the server's own explanation when it sends one as { error, kind }
+    const json = await response.json().then(json => json as { error?: unknown; kind?: unknown } | null, () => null);
+    const detail = json?.error;
+    throw new ChatError(
+      isErrorKind(json?.kind) ? json.kind : errorKindFor(response.status),
+      `${url} answered ${response.status}${typeof detail === 'string' ? `: ${detail}` : ` ${response.statusText}`}`,
+      retryAfter(response)
+    );
+  }
+  return response.body;
+};
+
+// Decodes a streamed response body as it arrives
+async function* readText(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      const text = decoder.decode(value, { stream: !done });
+      if (text) yield text;
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Splits a streamed response body into lines, dropping blank ones
+export async function* readLines(body: ReadableStream<Uint8Array>) {
+  let pending = '';
+  for await (const text of readText(body)) {
+    const lines = (pending + text).split('\n');
+    pending = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) yield line.trim();
+    }
+  }
+  if (pending.trim()) yield pending.trim();
+}
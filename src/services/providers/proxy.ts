@@ -0,0 +1,16 @@
+import { ChatError, ChatEvent, ChatProvider, isErrorKind, postJson, readLines } from './provider';
+
+// Our own /api/chat endpoint (server/), which holds the real key and streams
+// the answer back as one JSON ChatEvent per line. A failure after the answer
+// has started arrives as a last { type: 'error' } line. The server writes the
+// instructions from the scene and offers its own tools, so neither is sent.
+export const createProxyProvider = (baseUrl: string): ChatProvider => ({
+  stream: async function* ({ scene, language, history, query, attachments, temperature, signal }) {
+    const body = await postJson(`${baseUrl}/api/chat`, { scene, language, history, query, attachments, temperature }, signal);
+    for await (const line of readLines(body)) {
+      const event = JSON.parse(line) as ChatEvent | { type: 'error'; kind: unknown; error: string };
+      if (event.type === 'error') throw new ChatError(isErrorKind(event.kind) ? event.kind : 'unknown', event.error);
+      yield event;
+    }
+  },
+});
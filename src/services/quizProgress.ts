@@ -0,0 +1,30 @@
+import { QuizProgress } from '../types';
+
+const STORAGE_KEY = 'visionoptics.quizProgress';
+
+// Storage can be unavailable (private mode, blocked cookies) or hold data
+// from an older version; progress then simply starts empty
+export const loadQuizProgress = (): QuizProgress => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveQuizProgress = (progress: QuizProgress) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+  } catch {
+    // Progress is a convenience; losing it must not break the quiz
+  }
+};
+
+export const clearQuizProgress = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // See saveQuizProgress
+  }
+};
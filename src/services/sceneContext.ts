@@ -0,0 +1,75 @@
+import { Point, SceneLight, SceneSnapshot } from '../types';
+import { TranslationKey, translate } from '../i18n';
+import { SCENE } from '../optics/scene';
+import { BRIGHT_LEVEL, DARK_LEVEL } from '../optics/quiz';
+
+// Smallest height change (diagram units) that counts as part of a feature
+const FEATURE_TOLERANCE = 0.5;
+// Grey-level difference below which defect and surface look the same
+const CONTRAST_TOLERANCE = 0.05;
+// Longest part name passed on to the model; file names can be much longer
+export const MAX_PART_NAME = 120;
+
+// The model is instructed in English whatever language it answers in
+const en = (key: TranslationKey) => translate('en', key);
+
+const describeLight = ({ fixture, angle, azimuth, intensity, enabled }: SceneLight) => {
+  const geometry =
+    fixture === 'spot' ? ` at ${angle}° from the optical axis, azimuth ${azimuth}°` :
+    fixture === 'ring' ? ` at ${angle}° from the optical axis` : '';
+  return `${en(`fixture.${fixture}`)}${geometry}, intensity ${intensity.toFixed(1)}${enabled ? '' : ' (switched off)'}`;
+};
+
+// Depth, width and steepest wall of whatever departs from the flat surface
+const describeSurface = (profile: Point[]) => {
+  const offSurface = (p: Point) => Math.abs(p.y - SCENE.surfaceY) > FEATURE_TOLERANCE;
+  const feature = profile.filter(offSurface);
+  if (feature.length === 0) return 'flat, no visible defect';
+  // y grows downward, so a cut has points below the surface line
+  const deepest = Math.max(0, ...feature.map(p => p.y - SCENE.surfaceY));
+  const highest = Math.max(0, ...feature.map(p => SCENE.surfaceY - p.y));
+  let steepest = 0;
+  profile.forEach((p, i) => {
+    if (i === 0) return;
+    const prev = profile[i - 1];
+    const slope = Math.atan2(Math.abs(p.y - prev.y), Math.abs(p.x - prev.x)) * (180 / Math.PI);
+    steepest = Math.max(steepest, slope);
+  });
+  const parts = [];
+  if (deepest > 0) parts.push(`cut ${deepest.toFixed(0)} units deep`);
+  if (highest > 0) parts.push(`raised ${highest.toFixed(0)} units`);
+  // Measured between the surface vertices on either side of the feature
+  const first = Math.max(0, profile.findIndex(offSurface) - 1);
+  const last = Math.min(profile.length - 1, profile.length - [...profile].reverse().findIndex(offSurface));
+  const width = profile[last].x - profile[first].x;
+  return `${parts.join(' and ')}, about ${width.toFixed(0)} units wide, steepest wall ${steepest.toFixed(0)}° from horizontal`;
+};
+
+// File names are the student's own text; line breaks or quotes in one must
+// not read as instructions of their own
+const quotedName = (name: string) => `"${name.slice(0, MAX_PART_NAME).replace(/[\p{Cc}"]/gu, ' ')}"`;
+
+const describeLevel = (level: number) =>
+  `${Math.round(level * 100)}% (${level >= BRIGHT_LEVEL ? 'bright' : level <= DARK_LEVEL ? 'dark' : 'grey'})`;
+
+// Plain-text snapshot of the simulator, written for the model's instructions
+export const describeScene = (scene: SceneSnapshot) => {
+  const { mode, lights, profile, partName, materialId, lightColor, filter, polarization, lensKind, levels } = scene;
+  const polarizers = [polarization.polarizer && `polarizer at ${polarization.polarizerAngle}°`, polarization.analyzer && `analyzer at ${polarization.analyzerAngle}°`]
+    .filter(Boolean)
+    .join(', ');
+  const difference = levels.defect - levels.flat;
+  return [
+    `- Lighting: ${en(`mode.${mode}`)}`,
+    ...lights.map(light => `  - ${describeLight(light)}`),
+    `- Part: ${partName ? `loaded height map ${quotedName(partName)}, one row shown in the diagram` : 'built-in coin'}`,
+    `- Surface cross-section: ${describeSurface(profile)}`,
+    `- Material: ${en(`material.${materialId}`)}`,
+    `- Light color: ${en(`lightColor.${lightColor}`)}; camera filter: ${en(`filter.${filter}`)}`,
+    `- Polarization: ${polarizers || 'none'}`,
+    `- Lens: ${en(`lens.${lensKind}`)}`,
+    `- Camera image: flat surface ${describeLevel(levels.flat)}, defect ${describeLevel(levels.defect)}, ` +
+      `background ${levels.backdrop === null ? 'unlit' : describeLevel(levels.backdrop)}`,
+    `- The defect appears ${Math.abs(difference) < CONTRAST_TOLERANCE ? 'about as bright as' : difference > 0 ? 'brighter than' : 'darker than'} the flat surface`,
+  ].join('\n');
+};
@@ -0,0 +1,88 @@
+import { LessonHighlight, LightingMode, SimulatorAction } from '../types';
+import { EXAMPLE_CASES } from '../data/exampleCases';
+import { translate } from '../i18n';
+import { ToolCall, ToolDeclaration } from './providers';
+
+const MODES = Object.values(LightingMode);
+const HIGHLIGHTS: LessonHighlight[] = ['light', 'lens', 'flat', 'defect', 'captured', 'missed'];
+
+// Offered to the model with every question. Descriptions are written for
+// the model, so they stay in English.
+export const SIMULATOR_TOOLS: ToolDeclaration[] = [
+  {
+    name: 'set_lighting_mode',
+    description: 'Switch the simulator to a lighting technique, replacing the current lights with its preset.',
+    parameters: {
+      type: 'object',
+      properties: { mode: { type: 'string', enum: MODES } },
+      required: ['mode'],
+    },
+  },
+  {
+    name: 'set_light_angle',
+    description: 'Set the angle of the spot light in degrees from the optical axis: 0 is straight down (bright field), large angles graze the surface (dark field).',
+    parameters: {
+      type: 'object',
+      properties: { angle: { type: 'number', minimum: 0, maximum: 90 } },
+      required: ['angle'],
+    },
+  },
+  {
+    name: 'load_example_case',
+    description: `Load one of the inspection cases with its part, material and recommended lighting. Cases: ${EXAMPLE_CASES.map(example => `${example.id} (${example.name.en})`).join(', ')}.`,
+    parameters: {
+      type: 'object',
+      properties: { caseId: { type: 'string', enum: EXAMPLE_CASES.map(example => example.id) } },
+      required: ['caseId'],
+    },
+  },
+  {
+    name: 'highlight_diagram',
+    description: 'Make part of the ray diagram pulse to point the student at it: the light, the lens, the flat surface, the defect, the rays the camera captures or the rays it misses.',
+    parameters: {
+      type: 'object',
+      properties: { target: { type: 'string', enum: HIGHLIGHTS } },
+      required: ['target'],
+    },
+  },
+];
+
+// Models do not always respect the schema, so every argument is checked;
+// calls that make no sense are ignored
+export const toSimulatorAction = ({ name, args }: ToolCall): SimulatorAction | null => {
+  switch (name) {
+    case 'set_lighting_mode': {
+      const mode = MODES.find(candidate => candidate === args.mode);
+      return mode ? { kind: 'setMode', mode } : null;
+    }
+    case 'set_light_angle': {
+      const angle = Number(args.angle);
+      return Number.isFinite(angle) ? { kind: 'setAngle', angle: Math.round(Math.min(90, Math.max(0, angle))) } : null;
+    }
+    case 'load_example_case': {
+      const example = EXAMPLE_CASES.find(candidate => candidate.id === args.caseId);
+      return example ? { kind: 'loadCase', caseId: example.id } : null;
+    }
+    case 'highlight_diagram': {
+      const target = HIGHLIGHTS.find(candidate => candidate === args.target);
+      return target ? { kind: 'highlight', target } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// What an earlier answer did to the simulator, for the model to read back
+// in the history; Gemini refuses turns without text
+export const describeActionForModel = (action: SimulatorAction) => {
+  switch (action.kind) {
+    case 'setMode':
+      return `[switched the simulator to ${translate('en', `mode.${action.mode}`)}]`;
+    case 'setAngle':
+      return `[set the light to ${action.angle}°]`;
+    case 'loadCase':
+      return `[loaded the case "${EXAMPLE_CASES.find(example => example.id === action.caseId)?.name.en ?? action.caseId}"]`;
+    case 'highlight':
+      return `[highlighted the ${action.target} in the ray diagram]`;
+  }
+};
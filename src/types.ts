@@ -1,17 +1,310 @@
 export enum LightingMode {
   BRIGHT_FIELD = 'BRIGHT_FIELD',
-  DARK_FIELD = 'DARK_FIELD'
+  DARK_FIELD = 'DARK_FIELD',
+  COAXIAL = 'COAXIAL',
+  DOME = 'DOME',
+  BACKLIGHT = 'BACKLIGHT',
+  LOW_ANGLE_RING = 'LOW_ANGLE_RING',
+  PHOTOMETRIC_STEREO = 'PHOTOMETRIC_STEREO'
 }
 
-export type Language = 'en' | 'zh';
+export type Language = 'en' | 'zh' | 'ja' | 'de';
 
+// Text carried by data files (cases, lessons, quizzes). English is required;
+// other languages fall back to it until translated.
+export type LocalizedText = { en: string } & Partial<Record<Language, string>>;
+
+// Image sent along with a question, already scaled down for the model
+export interface ChatAttachment {
+  mimeType: string;
+  data: string; // Base64, without the data: URL prefix
+  name: string;
+}
+
+// Why a question got no answer. throttled is our own limit in the browser;
+// the others come from the model backend.
+export type ChatErrorKind = 'auth' | 'quota' | 'network' | 'blocked' | 'throttled' | 'unknown';
+
+export type ChatResult =
+  | { kind: 'success'; text: string }
+  | { kind: ChatErrorKind; text: string; retryAfterMs?: number }; // text is what arrived before the failure
+
+// system messages report a failed question; they are never sent to the model
 export interface ChatMessage {
-  role: 'user' | 'model';
+  role: 'user' | 'model' | 'system';
   text: string;
+  stopped?: boolean; // The user cut the answer short; text is what had arrived
+  attachments?: ChatAttachment[];
+  actions?: SimulatorAction[]; // What the tutor changed in the simulator with this answer
+  actionsUndone?: boolean;
+  error?: ChatErrorKind; // Set on system messages
+  retryAfterMs?: number; // How long the backend asked us to wait
 }
 
+export interface Conversation {
+  id: string;
+  title: string; // Empty until the first question names it
+  messages: ChatMessage[];
+  updatedAt: number; // Epoch milliseconds
+}
+
+
+// ==========================================
+// Ray tracing geometry (SVG coordinates, y grows downward)
+// ==========================================
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// 3D vector for the camera renderer: x/y across the image, z up toward the lens
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type SurfaceRegion = 'flat' | 'defect';
+
+export type MaterialId =
+  | 'polished-metal'
+  | 'brushed-metal'
+  | 'matte-plastic'
+  | 'painted'
+  | 'ceramic'
+  | 'glass';
+
+// Coarse spectrum: one sample per illumination band the simulator offers
+export type SpectralBand = 'uv' | 'blue' | 'green' | 'red' | 'ir';
+export type Spectrum = Record<SpectralBand, number>;
+
+export type LightColor = 'white' | SpectralBand;
+export type CameraFilter = 'none' | SpectralBand; // Bandpass centered on a band
+
+// Linear polarizer in front of the lights and analyzer in front of the lens.
+// Angles are the transmission axis in degrees.
+export interface PolarizationSettings {
+  polarizer: boolean;
+  polarizerAngle: number;
+  analyzer: boolean;
+  analyzerAngle: number;
+}
+
+export interface Material {
+  id: MaterialId;
+  reflectance: number; // Specular reflectance at normal incidence (Fresnel F0)
+  albedo: number; // Share of the remaining light scattered diffusely
+  lobeWidth: number; // Extra width of the glossy lobe in degrees (0 = mirror)
+  color: Spectrum; // Diffuse reflectance per band, relative to albedo
+}
+
+export type SurfaceFeatureKind = 'v-scratch' | 'rounded-pit' | 'embossed' | 'burr' | 'step';
+
+export interface SurfaceSegment {
+  start: Point;
+  end: Point;
+  normal: Point; // Unit normal facing out of the material
+  region: SurfaceRegion;
+  absorbs?: boolean; // Unlit side of an opaque part: rays stop here
+}
+
+export interface LightSource {
+  position: Point;
+  direction: Point; // Unit vector of the central ray
+  beamWidth: number; // Width of the emitter, measured across the beam
+  spread: number; // Half-angle of the fan in degrees (0 = collimated)
+  rayCount: number;
+  intensity: number; // Relative power, 1 = the default lamp
+  // The beam is described in the diagram plane and then turned this many
+  // degrees around the optical axis; only azimuth 0 is drawn in the diagram
+  azimuth: number;
+  azimuthCopies: number; // Sweeps the beam around the axis (rings, domes)
+  sourceId: number; // SceneLight the beam belongs to
+}
+
+export type LightFixture = 'spot' | 'coaxial' | 'dome' | 'backlight' | 'ring';
+
+// One lamp of the scene as the user set it up
+export interface SceneLight {
+  id: number;
+  fixture: LightFixture;
+  angle: number; // Degrees from the optical axis (spot and ring)
+  azimuth: number; // Degrees around the axis; 0 = from the diagram's left (spot only)
+  intensity: number;
+  enabled: boolean;
+}
+
+// Light setup a case is shown under
+export interface CaseLighting {
+  mode: LightingMode;
+  lightColor: LightColor;
+}
+
+// A real inspection task the simulator can be set up for
 export interface ExampleCase {
   id: string;
+  name: LocalizedText;
+  description: LocalizedText;
+  material: MaterialId;
+  profile: Point[]; // Cross-section of the feature, as drawn in the profile editor
+  before: CaseLighting; // What usually gets tried first
+  recommended: CaseLighting;
+}
+
+export type QuizTopic = 'field' | 'fixtures' | 'materials';
+export type QuizLevel = 'bright' | 'dark';
+
+// What the camera image has to show for an answer to count. Regions left
+// out may be anything; contrast is how much brighter the feature must be.
+export interface QuizGoal {
+  flat?: QuizLevel;
+  defect?: QuizLevel;
+  backdrop?: QuizLevel;
+  contrast?: number;
+}
+
+// 'mode' questions are answered by picking a lighting mode, 'angle' ones by
+// steering the lamp in the simulator; either way the simulation is graded.
+export interface QuizQuestion {
+  id: string;
+  topic: QuizTopic;
+  kind: 'mode' | 'angle';
+  options?: LightingMode[]; // Choices of a 'mode' question
+  prompt: LocalizedText;
+  explanation: LocalizedText;
+  material: MaterialId;
+  profile: Point[];
+  goal: QuizGoal;
+}
+
+// A learner's history with one question
+export interface QuizRecord {
+  attempts: number;
+  solved: boolean;
+}
+
+export type QuizProgress = Record<string, QuizRecord>;
+
+// What lesson steps and other guides can observe of the simulator
+export interface SimulatorState {
+  mode: LightingMode;
+  lightAngle: number | null; // Angle of the first lamp when it is a spot
+  materialId: MaterialId;
+  levels: CameraLevels;
+}
+
+// Everything the AI tutor is told about the scene the user is looking at
+export interface SceneSnapshot extends SimulatorState {
+  lights: SceneLight[];
+  profile: Point[]; // Cross-section shown in the ray diagram
+  partName: string | null; // Loaded part, null for the built-in coin
+  lightColor: LightColor;
+  filter: CameraFilter;
+  polarization: PolarizationSettings;
+  lensKind: LensKind;
+}
+
+// Part of the ray diagram a lesson step points at
+export type LessonHighlight = 'light' | 'lens' | 'flat' | 'defect' | 'captured' | 'missed';
+
+// Change the AI tutor makes to the simulator by calling one of its tools
+export type SimulatorAction =
+  | { kind: 'setMode'; mode: LightingMode }
+  | { kind: 'setAngle'; angle: number }
+  | { kind: 'loadCase'; caseId: string }
+  | { kind: 'highlight'; target: LessonHighlight };
+
+// Loaded into the simulator when a step starts. An angle replaces the
+// scene with a single spot at that angle.
+export interface LessonSetup {
+  mode?: LightingMode;
+  angle?: number;
+  material?: MaterialId;
+  profile?: Point[];
+}
+
+// Simulator state a step waits for; every field given has to hold
+export interface LessonCondition {
+  mode?: LightingMode;
+  minAngle?: number;
+  maxAngle?: number;
+  material?: MaterialId;
+  goal?: QuizGoal;
+}
+
+export interface LessonStep {
+  narration: LocalizedText;
+  setup?: LessonSetup;
+  highlight?: LessonHighlight;
+  task?: LocalizedText; // What to do; shown until waitFor holds
+  waitFor?: LessonCondition;
+}
+
+export interface Lesson {
+  id: string;
+  title: LocalizedText;
+  summary: LocalizedText;
+  steps: LessonStep[];
+}
+
+export type LensKind = 'entocentric' | 'telecentric';
+
+// What the user dials in on the lens, in millimetres
+export interface LensSettings {
+  kind: LensKind;
+  focalLength: number;
+  fNumber: number;
+  workingDistance: number;
+  sensorWidth: number;
+}
+
+// The lens as the tracer sees it, in diagram units. Every point inside the
+// field is imaged through a cone of acceptanceAngle around its chief ray;
+// chief rays converge on the pupil for a standard lens and stay parallel to
+// the axis for a telecentric one.
+export interface CameraAperture {
+  position: Point; // Center of the lens, where the diagram draws it
+  halfWidth: number; // Half the field of view on the object
+  acceptanceAngle: number; // Half-angle in degrees of the NA cone
+  workingDistance: number; // True distance to the pupil; the diagram is not to scale
+  telecentric: boolean;
+}
+
+export interface RayHit {
+  point: Point;
+  normal: Point;
+  incoming: Point; // Unit direction of the ray arriving at the hit
+  region: SurfaceRegion;
+}
+
+export interface TracedRay {
+  path: Point[];
+  hits: RayHit[];
+  captured: boolean;
+}
+
+// Grey levels (0..1) the camera records for each part of the image.
+// backdrop is null when nothing lights the surroundings of the part.
+export interface CameraLevels {
+  flat: number;
+  defect: number;
+  backdrop: number | null;
+}
+
+// Height field of the inspected part as seen by the camera, row-major.
+// Heights are in pixel units; mask marks pixels that belong to the part.
+export interface Heightmap {
+  width: number;
+  height: number;
+  heights: Float32Array;
+  mask: Uint8Array;
+  ink?: Uint8Array; // Pixels covered by printed ink, which has no relief
+}
+
+// A heightmap the user loaded from a grayscale PNG or a depth CSV. Heights
+// are normalized: the dominant surface sits at 0 and the full range spans 1.
+export interface CustomPart {
   name: string;
-  description: string;
-}
\ No newline at end of file
+  map: Heightmap;
+}
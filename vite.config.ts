@@ -11,6 +11,12 @@ export default defineConfig({
   base: `/${repoName}/`, 
   
   plugins: [react()],
+  // The chat's /api/chat lives in server/ (npm run server)
+  server: {
+    proxy: {
+      '/api': 'http://localhost:8787',
+    },
+  },
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),